@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { createServerSupabase, getEventDetail } from "@/lib/server/weight-data"
+
+// Raw samples and the full result history of one event
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ eventId: string }> }) {
+  try {
+    const { eventId } = await params
+    const event = await getEventDetail(createServerSupabase(), eventId)
+    if (!event) throw new ApiError("not_found", `Weight event ${eventId} not found`, 404)
+
+    return NextResponse.json({ event })
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error loading event:", error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,90 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { requireCaller } from "@/lib/server/auth"
+import { enforceRateLimit } from "@/lib/server/rate-limit"
+import { getApiToken } from "@/lib/server/recalculate-config"
+import {
+  MAX_PAGE_SIZE,
+  createServerSupabase,
+  getEventsByIds,
+  insertEvent,
+  listEvents,
+} from "@/lib/server/weight-data"
+import { parseSamples } from "@/lib/domain"
+import { MAX_SAMPLE_FILE_POINTS } from "@/lib/sample-files"
+
+const DEFAULT_PAGE_SIZE = 20
+const UPLOADS_PER_MINUTE = 30
+
+const NewEventBodySchema = z.object({
+  started_at: z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid timestamp"),
+  samples: z.array(z.unknown()).min(2).max(MAX_SAMPLE_FILE_POINTS),
+})
+
+// GET /api/events?page=1&pageSize=20 lists event summaries newest first.
+// GET /api/events?ids=a,b returns just those events, for refreshing after recalculation.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createServerSupabase()
+    const params = request.nextUrl.searchParams
+
+    const ids = params.get("ids")
+    if (ids !== null) {
+      const eventIds = ids.split(",").filter(Boolean)
+      if (eventIds.length > MAX_PAGE_SIZE) {
+        throw new ApiError("bad_request", `At most ${MAX_PAGE_SIZE} ids can be requested at once`, 400)
+      }
+      return NextResponse.json(await getEventsByIds(supabase, eventIds))
+    }
+
+    const page = Number(params.get("page") ?? 1)
+    const pageSize = Number(params.get("pageSize") ?? DEFAULT_PAGE_SIZE)
+    if (!Number.isInteger(page) || page < 1) {
+      throw new ApiError("bad_request", "page must be a positive integer", 400)
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new ApiError("bad_request", `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`, 400)
+    }
+
+    return NextResponse.json(await listEvents(supabase, { page, pageSize }))
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error listing events:", error)
+    return errorResponse(error)
+  }
+}
+
+// POST /api/events stores { started_at, samples: [{ t, kg }] } as a new event, for uploaded captures.
+// Samples must all pass the same validation as stored events; none are dropped silently.
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await requireCaller(request, getApiToken())
+    enforceRateLimit(`events:${caller.kind}:${caller.id}`, UPLOADS_PER_MINUTE)
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError("bad_request", "Request body must be valid JSON", 400)
+    }
+
+    const parsed = NewEventBodySchema.safeParse(body)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.slice(0, 10).map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      throw new ApiError("bad_request", "Invalid event", 400, { issues })
+    }
+
+    const { samples, problems } = parseSamples(parsed.data.samples, null, "request")
+    if (problems.length > 0) {
+      throw new ApiError("bad_request", "Invalid samples", 400, { issues: problems.map((problem) => problem.message) })
+    }
+
+    const started_at = new Date(parsed.data.started_at).toISOString()
+    const event = await insertEvent(createServerSupabase(), { started_at, samples })
+    return NextResponse.json({ event }, { status: 201 })
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error creating event:", error)
+    const retryAfterS = error instanceof ApiError ? error.details?.retryAfterS : undefined
+    return errorResponse(error, retryAfterS ? { "Retry-After": String(retryAfterS) } : undefined)
+  }
+}
@@ -0,0 +1,219 @@
+import type { NextRequest } from "next/server"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import {
+  createServerSupabase,
+  eventSamples,
+  listExportEvents,
+  type EventSummary,
+  type ExportFilter,
+} from "@/lib/server/weight-data"
+import { zipEntries } from "@/lib/server/zip"
+import {
+  encodeHeader,
+  encodeRow,
+  eventColumns,
+  eventRow,
+  exportFormat,
+  sampleColumns,
+  sampleRows,
+  type ExportFile,
+  type ExportFormat,
+} from "@/lib/export"
+import type { DataProblem } from "@/lib/domain"
+import type { WeightUnit } from "@/lib/units"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+const MAX_EVENT_IDS = 10000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type ExportOptions = {
+  format: ExportFormat
+  file: ExportFile
+  bundle: boolean
+  // Adds the samples file to a bundle
+  samples: boolean
+  unit: WeightUnit
+  filter: ExportFilter
+}
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], name: string, fallback: T): T => {
+  if (value === null) return fallback
+  if ((allowed as readonly string[]).includes(value)) return value as T
+  throw new ApiError("bad_request", `${name} must be one of ${allowed.join(", ")}`, 400)
+}
+
+// A bare YYYY-MM-DD `to` covers that whole (UTC) day
+function parseBound(value: string | null, name: string, endOfDay = false): number | undefined {
+  if (value === null || value === "") return undefined
+  const ms = Date.parse(value)
+  if (Number.isNaN(ms)) throw new ApiError("bad_request", `${name} must be a date or timestamp`, 400)
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? ms + DAY_MS - 1 : ms
+}
+
+function parseOptions(params: URLSearchParams, eventIds?: string[]): ExportOptions {
+  const start = parseBound(params.get("from"), "from")
+  const end = parseBound(params.get("to"), "to", true)
+  if (start !== undefined && end !== undefined && start > end) {
+    throw new ApiError("bad_request", "from must not be after to", 400)
+  }
+
+  const bundle = params.get("bundle")
+  if (bundle !== null && bundle !== "zip") throw new ApiError("bad_request", "bundle must be zip", 400)
+
+  return {
+    format: oneOf(params.get("format"), ["csv", "jsonl"], "format", "csv"),
+    file: oneOf(params.get("file"), ["events", "samples"], "file", "events"),
+    bundle: bundle === "zip",
+    samples: params.get("samples") === "1" || params.get("samples") === "true",
+    unit: oneOf(params.get("unit"), ["kg", "lb", "st"], "unit", "kg"),
+    filter: { start, end, scaleId: params.get("scale") || undefined, eventIds },
+  }
+}
+
+async function readEventIds(request: NextRequest): Promise<string[] | undefined> {
+  const text = await request.text()
+  if (!text.trim()) return undefined
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    throw new ApiError("bad_request", "Request body must be valid JSON", 400)
+  }
+  const eventIds = typeof body === "object" && body !== null ? (body as Record<string, unknown>).event_ids : undefined
+  if (
+    !Array.isArray(eventIds) ||
+    eventIds.length > MAX_EVENT_IDS ||
+    !eventIds.every((id) => typeof id === "string" && id.length > 0)
+  ) {
+    throw new ApiError("bad_request", `event_ids must be an array of at most ${MAX_EVENT_IDS} ids`, 400)
+  }
+  return Array.from(new Set(eventIds as string[]))
+}
+
+async function* eventLines(events: EventSummary[], options: ExportOptions) {
+  const columns = eventColumns(options.unit)
+  yield encodeHeader(options.format, columns)
+  for (const event of events) yield encodeRow(options.format, columns, eventRow(event, options.unit))
+}
+
+// Tallies samples and their problems into `stats` as it goes
+async function* sampleLines(
+  supabase: SupabaseClient,
+  events: EventSummary[],
+  options: ExportOptions,
+  stats: { samples: number; problems: DataProblem[] },
+) {
+  const columns = sampleColumns(options.unit)
+  yield encodeHeader(options.format, columns)
+  const ids = events.map((event) => event.id)
+  for await (const { eventId, samples, problems } of eventSamples(supabase, ids)) {
+    stats.samples += samples.length
+    stats.problems.push(...problems)
+    yield sampleRows(eventId, samples, options.unit)
+      .map((row) => encodeRow(options.format, columns, row))
+      .join("")
+  }
+}
+
+// Errors after the response has started can only abort the download
+function toStream(chunks: AsyncIterable<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const iterator = chunks[Symbol.asyncIterator]()
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next()
+        if (done) controller.close()
+        else controller.enqueue(typeof value === "string" ? encoder.encode(value) : value)
+      } catch (error) {
+        console.error("[v0] Error streaming export:", error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
+
+async function exportResponse(request: NextRequest, eventIds?: string[]) {
+  const options = parseOptions(request.nextUrl.searchParams, eventIds)
+  const supabase = createServerSupabase()
+  const { events, problems } = await listExportEvents(supabase, options.filter)
+
+  const { extension, type } = exportFormat(options.format)
+  const stamp = new Date().toISOString().slice(0, 10)
+  const headers = (filename: string, contentType: string) => ({
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Cache-Control": "no-store",
+  })
+
+  if (options.bundle) {
+    async function* entries() {
+      // Each entry is streamed into the zip, so the samples file is never held whole. The zip
+      // finishes an entry before asking for the next, so stats are complete by the manifest.
+      yield { name: `events.${extension}`, content: eventLines(events, options) }
+      const stats = { samples: 0, problems }
+      if (options.samples) {
+        yield { name: `samples.${extension}`, content: sampleLines(supabase, events, options, stats) }
+      }
+      const manifest = {
+        generated_at: new Date().toISOString(),
+        format: options.format,
+        unit: options.unit,
+        filter: {
+          from: options.filter.start !== undefined ? new Date(options.filter.start).toISOString() : null,
+          to: options.filter.end !== undefined ? new Date(options.filter.end).toISOString() : null,
+          scale_id: options.filter.scaleId ?? null,
+          event_ids: options.filter.eventIds?.length ?? null,
+        },
+        events: events.length,
+        samples: options.samples ? stats.samples : null,
+        problems,
+      }
+      yield { name: "manifest.json", content: JSON.stringify(manifest, null, 2) }
+    }
+    return new Response(toStream(zipEntries(entries())), {
+      headers: headers(`autoscale-export-${stamp}.zip`, "application/zip"),
+    })
+  }
+
+  if (options.file === "samples") {
+    // Sample problems are only found while streaming, after the headers are sent, so no count is
+    // given here rather than one that leaves them out; the zip bundle's manifest lists them all
+    const stats = { samples: 0, problems }
+    return new Response(toStream(sampleLines(supabase, events, options, stats)), {
+      headers: headers(`autoscale-samples-${stamp}.${extension}`, type),
+    })
+  }
+
+  return new Response(toStream(eventLines(events, options)), {
+    headers: {
+      ...headers(`autoscale-events-${stamp}.${extension}`, type),
+      "X-Export-Problems": String(problems.length),
+    },
+  })
+}
+
+// GET /api/export?format=csv|jsonl&file=events|samples&from=&to=&scale=&unit= streams one file.
+// &bundle=zip returns events, a manifest and, with &samples=1, the samples as one zip.
+export async function GET(request: NextRequest) {
+  try {
+    return await exportResponse(request)
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error exporting data:", error)
+    return errorResponse(error)
+  }
+}
+
+// POST takes the same query parameters and a body of { "event_ids": [...] }, to export a profile's events
+export async function POST(request: NextRequest) {
+  try {
+    return await exportResponse(request, await readEventIds(request))
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error exporting data:", error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { requireCaller } from "@/lib/server/auth"
+import { enforceRateLimit } from "@/lib/server/rate-limit"
+import { getApiToken } from "@/lib/server/recalculate-config"
+import { createServerSupabase, insertImportedEvents } from "@/lib/server/weight-data"
+import { IMPORT_FORMATS, MAX_IMPORT_ROWS, type ImportFormat } from "@/lib/importers"
+
+// A large file is sent in batches of MAX_IMPORT_ROWS, so this allows far more than recalculation does
+const IMPORT_BATCHES_PER_MINUTE = 30
+
+const ImportBodySchema = z.object({
+  source: z.enum(IMPORT_FORMATS.map((f) => f.format) as [ImportFormat, ...ImportFormat[]]),
+  rows: z
+    .array(
+      z.object({
+        started_at: z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid timestamp"),
+        weight_kg: z.number().finite().positive(),
+      }),
+    )
+    .min(1)
+    .max(MAX_IMPORT_ROWS),
+})
+
+// POST /api/import stores { source, rows: [{ started_at, weight_kg }] } as summary-only events
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await requireCaller(request, getApiToken())
+    enforceRateLimit(`import:${caller.kind}:${caller.id}`, IMPORT_BATCHES_PER_MINUTE)
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError("bad_request", "Request body must be valid JSON", 400)
+    }
+
+    const parsed = ImportBodySchema.safeParse(body)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.slice(0, 10).map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      throw new ApiError("bad_request", "Invalid import", 400, { issues })
+    }
+
+    const { source, rows } = parsed.data
+    return NextResponse.json(await insertImportedEvents(createServerSupabase(), source, rows))
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error importing weigh-ins:", error)
+    const retryAfterS = error instanceof ApiError ? error.details?.retryAfterS : undefined
+    return errorResponse(error, retryAfterS ? { "Retry-After": String(retryAfterS) } : undefined)
+  }
+}
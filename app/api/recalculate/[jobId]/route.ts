@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { requireCaller } from "@/lib/server/auth"
+import { getRecalculateConfig } from "@/lib/server/recalculate-config"
+import { getJob } from "@/lib/server/recalculate-jobs"
+import { createServiceSupabase } from "@/lib/server/weight-data"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const config = getRecalculateConfig()
+    await requireCaller(request, config.apiToken)
+
+    const { jobId } = await params
+    const job = await getJob(createServiceSupabase(), jobId)
+    if (!job) throw new ApiError("not_found", `Recalculation job ${jobId} not found`, 404)
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
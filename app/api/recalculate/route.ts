@@ -1,32 +1,81 @@
-import { NextResponse } from "next/server"
+import { after, type NextRequest, NextResponse } from "next/server"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { requireCaller } from "@/lib/server/auth"
+import { enforceRateLimit } from "@/lib/server/rate-limit"
+import { getRecalculateConfig } from "@/lib/server/recalculate-config"
+import { createJob, runJob } from "@/lib/server/recalculate-jobs"
+import { createServiceSupabase } from "@/lib/server/weight-data"
 
-export async function POST() {
+const DEFAULT_BATCH = 50
+const MAX_BATCH = 500
+const MAX_EVENT_IDS = 1000
+
+type RecalculateBody = {
+  event_ids?: string[]
+  algorithm_version?: string
+}
+
+async function readBody(request: NextRequest): Promise<RecalculateBody> {
+  const text = await request.text()
+  if (!text.trim()) return {}
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    throw new ApiError("bad_request", "Request body must be valid JSON", 400)
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ApiError("bad_request", "Request body must be a JSON object", 400)
+  }
+
+  const { event_ids, algorithm_version } = body as Record<string, unknown>
+
+  if (
+    event_ids !== undefined &&
+    (!Array.isArray(event_ids) ||
+      event_ids.length === 0 ||
+      event_ids.length > MAX_EVENT_IDS ||
+      !event_ids.every((id) => typeof id === "string" && id.length > 0))
+  ) {
+    throw new ApiError("bad_request", `event_ids must be a non-empty array of at most ${MAX_EVENT_IDS} ids`, 400)
+  }
+  if (algorithm_version !== undefined && (typeof algorithm_version !== "string" || !algorithm_version.trim())) {
+    throw new ApiError("bad_request", "algorithm_version must be a non-empty string", 400)
+  }
+
+  return {
+    event_ids: event_ids ? Array.from(new Set(event_ids as string[])) : undefined,
+    algorithm_version: algorithm_version?.trim(),
+  }
+}
+
+export async function POST(request: NextRequest) {
   try {
-    const response = await fetch(
-      "https://ajqnvbdqzajegsstrces.functions.supabase.co/process_weight_event_worker?batch=50",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-function-secret": "dF8N7npKR9DzzDXYK36l6mp/0lULhzluh1UlB15S8aI=",
-        },
-        body: JSON.stringify({}),
-      },
-    )
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error("[v0] Edge function error:", errorText)
-      return NextResponse.json({ error: `Recalculation failed: ${response.statusText}` }, { status: response.status })
+    const config = getRecalculateConfig()
+    const caller = await requireCaller(request, config.apiToken)
+
+    const batchParam = request.nextUrl.searchParams.get("batch")
+    const batch = batchParam === null ? DEFAULT_BATCH : Number(batchParam)
+    if (!Number.isInteger(batch) || batch < 1 || batch > MAX_BATCH) {
+      throw new ApiError("bad_request", `batch must be an integer between 1 and ${MAX_BATCH}`, 400)
     }
+    const body = await readBody(request)
+
+    enforceRateLimit(`${caller.kind}:${caller.id}`, config.rateLimitPerMinute)
+
+    const supabase = createServiceSupabase()
+    const job = await createJob(supabase, {
+      batchSize: batch,
+      eventIds: body.event_ids,
+      algorithmVersion: body.algorithm_version,
+    })
+    after(() => runJob(supabase, job, config))
 
-    const data = await response.json().catch(() => ({}))
-    return NextResponse.json({ success: true, data })
+    return NextResponse.json({ job }, { status: 202 })
   } catch (error) {
-    console.error("[v0] Error calling edge function:", error)
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to recalculate weights" },
-      { status: 500 },
-    )
+    if (!(error instanceof ApiError)) console.error("[v0] Error starting recalculation:", error)
+    const retryAfterS = error instanceof ApiError ? error.details?.retryAfterS : undefined
+    return errorResponse(error, retryAfterS ? { "Retry-After": String(retryAfterS) } : undefined)
   }
 }
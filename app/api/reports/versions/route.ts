@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { createServerSupabase, listReportResults, listReportVersions } from "@/lib/server/weight-data"
+
+// Without ?base and ?candidate, lists the versions; with them, returns the results of those two only
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const base = params.get("base")
+    const candidate = params.get("candidate")
+    const supabase = createServerSupabase()
+
+    if (base === null && candidate === null) {
+      return NextResponse.json({ versions: await listReportVersions(supabase) })
+    }
+    if (!base || !candidate) throw new ApiError("bad_request", "base and candidate must be given together", 400)
+
+    return NextResponse.json(await listReportResults(supabase, [base, candidate]))
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error loading version report results:", error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { MAX_HEALTH_EVENTS, createServerSupabase, listScaleHealth } from "@/lib/server/weight-data"
+
+const DEFAULT_LIMIT = 100
+
+// GET /api/scales/health?limit=100 returns health metrics of each scale's most recent events.
+export async function GET(request: NextRequest) {
+  try {
+    const limit = Number(request.nextUrl.searchParams.get("limit") ?? DEFAULT_LIMIT)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HEALTH_EVENTS) {
+      throw new ApiError("bad_request", `limit must be an integer between 1 and ${MAX_HEALTH_EVENTS}`, 400)
+    }
+
+    return NextResponse.json(await listScaleHealth(createServerSupabase(), { limit }))
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error loading scale health:", error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { createServerSupabase, listScaleSummaries } from "@/lib/server/weight-data"
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listScaleSummaries(createServerSupabase()))
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error loading scales:", error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { ApiError, errorResponse } from "@/lib/server/api-error"
+import { createServerSupabase, listTrendPoints } from "@/lib/server/weight-data"
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listTrendPoints(createServerSupabase()))
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error("[v0] Error loading trend:", error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,21 @@
+import { Suspense } from "react"
+import { DevicesClient } from "@/components/devices-client"
+
+function DevicesLoading() {
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="flex flex-col items-center gap-4">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+        <p className="text-sm text-muted-foreground">Loading scales...</p>
+      </div>
+    </div>
+  )
+}
+
+export default function DevicesPage() {
+  return (
+    <Suspense fallback={<DevicesLoading />}>
+      <DevicesClient />
+    </Suspense>
+  )
+}
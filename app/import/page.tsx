@@ -0,0 +1,5 @@
+import { ImportClient } from "@/components/import-client"
+
+export default function ImportPage() {
+  return <ImportClient />
+}
@@ -5,6 +5,9 @@ import { GeistMono } from "geist/font/mono"
 import { Analytics } from "@vercel/analytics/next"
 import { Suspense } from "react"
 import "./globals.css"
+import { UnitsProvider } from "@/components/units-provider"
+import { SessionProvider } from "@/components/session-provider"
+import { SignalProcessingProvider } from "@/components/signal-processing-provider"
 
 import { Geist as V0_Font_Geist, Geist_Mono as V0_Font_Geist_Mono, Source_Serif_4 as V0_Font_Source_Serif_4 } from 'next/font/google'
 
@@ -28,7 +31,11 @@ export default function RootLayout({
     <html lang="en">
       <body className={`font-sans ${GeistSans.variable} ${GeistMono.variable}`}>
         <Suspense fallback={<div className="flex items-center justify-center min-h-screen">Loading...</div>}>
-          {children}
+          <SessionProvider>
+            <UnitsProvider>
+              <SignalProcessingProvider>{children}</SignalProcessingProvider>
+            </UnitsProvider>
+          </SessionProvider>
         </Suspense>
         <Analytics />
       </body>
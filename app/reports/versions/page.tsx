@@ -0,0 +1,21 @@
+import { Suspense } from "react"
+import { VersionReportClient } from "@/components/version-report-client"
+
+function ReportLoading() {
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="flex flex-col items-center gap-4">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+        <p className="text-sm text-muted-foreground">Loading report...</p>
+      </div>
+    </div>
+  )
+}
+
+export default function VersionReportPage() {
+  return (
+    <Suspense fallback={<ReportLoading />}>
+      <VersionReportClient />
+    </Suspense>
+  )
+}
@@ -0,0 +1,10 @@
+import { Suspense } from "react"
+import { SignInClient } from "@/components/sign-in-client"
+
+export default function SignInPage() {
+  return (
+    <Suspense>
+      <SignInClient />
+    </Suspense>
+  )
+}
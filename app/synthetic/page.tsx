@@ -0,0 +1,10 @@
+import { Suspense } from "react"
+import { SyntheticClient } from "@/components/synthetic-client"
+
+export default function SyntheticPage() {
+  return (
+    <Suspense>
+      <SyntheticClient />
+    </Suspense>
+  )
+}
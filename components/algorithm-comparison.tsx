@@ -0,0 +1,74 @@
+"use client"
+
+import { useMemo } from "react"
+import {
+  LOCAL_ALGORITHM_VERSION,
+  compareResults,
+  type StableWeightResult,
+} from "@/lib/stable-weight"
+
+type AlgorithmComparisonProps = {
+  stored?: Partial<StableWeightResult> & { algorithm_version?: string }
+  local: StableWeightResult | null
+}
+
+export const formatValue = (value: number | string | null) => {
+  if (value === null) return "—"
+  if (typeof value === "string") return value
+  return Number.isInteger(value) ? value.toString() : value.toFixed(4)
+}
+
+export function AlgorithmComparison({ stored, local }: AlgorithmComparisonProps) {
+  const rows = useMemo(() => compareResults(stored, local), [stored, local])
+  const mismatches = rows.filter((r) => !r.matches).length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-sm font-semibold">Local vs Stored Result</h3>
+        {stored ? (
+          <span
+            className={`text-xs px-2 py-1 rounded-md ${
+              mismatches === 0 ? "bg-emerald-50 text-emerald-700" : "bg-red-50 text-red-700"
+            }`}
+          >
+            {mismatches === 0 ? "All fields agree" : `${mismatches} field${mismatches !== 1 ? "s" : ""} differ`}
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded-md">No stored result</span>
+        )}
+      </div>
+      {!local ? (
+        <p className="text-sm text-muted-foreground">Not enough samples to run the local algorithm.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th className="py-1.5 pr-3 text-left font-medium">Field</th>
+                <th className="py-1.5 pr-3 text-right font-medium">Stored ({stored?.algorithm_version ?? "—"})</th>
+                <th className="py-1.5 pr-3 text-right font-medium">Local ({LOCAL_ALGORITHM_VERSION})</th>
+                <th className="py-1.5 text-right font-medium">Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr
+                  key={r.field}
+                  className={`border-b last:border-0 ${stored && !r.matches ? "bg-red-50 text-red-700" : ""}`}
+                >
+                  <td className="py-1 pr-3 font-mono">{r.field}</td>
+                  <td className="py-1 pr-3 text-right font-mono">{formatValue(r.stored)}</td>
+                  <td className="py-1 pr-3 text-right font-mono">{formatValue(r.local)}</td>
+                  <td className="py-1 text-right font-mono">
+                    {r.delta === null ? "—" : `${r.delta >= 0 ? "+" : ""}${r.delta.toFixed(4)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
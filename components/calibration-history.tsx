@@ -0,0 +1,69 @@
+"use client"
+
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { calibrationHistory, type MeasuredReference } from "@/lib/calibration"
+
+type CalibrationHistoryProps = {
+  scaleId: string
+  points: MeasuredReference[]
+  onRemove: (id: string) => void
+}
+
+const signed = (value: number, digits: number) => `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`
+
+export function CalibrationHistory({ scaleId, points, onRemove }: CalibrationHistoryProps) {
+  const history = calibrationHistory(points, scaleId)
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="font-sans text-lg font-semibold tracking-tight">
+          Calibration of <span className="font-mono text-base">{scaleId}</span>
+        </CardTitle>
+        <CardDescription>
+          Reference weigh-ins in the order they were recorded, with the fit over each point and every earlier one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-muted-foreground">
+              <th className="py-2 pr-3 text-left font-medium">Recorded</th>
+              <th className="py-2 pr-3 text-right font-medium">Reference</th>
+              <th className="py-2 pr-3 text-right font-medium">Measured</th>
+              <th className="py-2 pr-3 text-right font-medium">Error</th>
+              <th className="py-2 pr-3 text-right font-medium">Gain</th>
+              <th className="py-2 pr-3 text-right font-medium">Offset</th>
+              <th className="py-2 text-right font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {history.map(({ point, error_kg, fit }) => (
+              <tr key={point.id} className="border-b last:border-0">
+                <td className="py-1.5 pr-3 whitespace-nowrap">{new Date(point.recorded_at).toLocaleString()}</td>
+                <td className="py-1.5 pr-3 text-right font-mono">{point.reference_kg.toFixed(3)} kg</td>
+                <td className="py-1.5 pr-3 text-right font-mono">{point.measured_kg.toFixed(3)} kg</td>
+                <td className="py-1.5 pr-3 text-right font-mono">{signed(error_kg, 3)} kg</td>
+                <td className="py-1.5 pr-3 text-right font-mono">{fit.gain.toFixed(5)}</td>
+                <td className="py-1.5 pr-3 text-right font-mono">{signed(fit.offset_kg, 3)} kg</td>
+                <td className="py-1.5 text-right">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Remove reference point"
+                    onClick={() => onRemove(point.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  )
+}
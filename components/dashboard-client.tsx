@@ -1,169 +1,523 @@
 "use client"
 
-import { useEffect, useState, useMemo } from "react"
-import { createBrowserClient } from "@supabase/ssr"
+import { useEffect, useState, useMemo, useRef, type DragEvent } from "react"
+import Link from "next/link"
 import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { DataChart } from "@/components/data-chart"
+import { LazyDataChart } from "@/components/lazy-data-chart"
 import { Spinner } from "@/components/ui/spinner"
+import { Progress } from "@/components/ui/progress"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { AlertCircle, RefreshCw } from "lucide-react"
+import {
+  Activity,
+  AlertCircle,
+  BarChart3,
+  FileUp,
+  FlaskConical,
+  LogIn,
+  LogOut,
+  RefreshCw,
+  Scale,
+  Upload,
+  Users,
+} from "lucide-react"
+import { createBrowserClient } from "@supabase/ssr"
 import { WeightTrendChart } from "@/components/weight-trend-chart"
+import { GoalPanel } from "@/components/goal-panel"
+import { TimeOfDayChart } from "@/components/time-of-day-chart"
+import { UnitSettings } from "@/components/unit-settings"
+import { ExportMenu } from "@/components/export-menu"
+import { useUnits } from "@/components/units-provider"
+import { useSession } from "@/components/session-provider"
 import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ProfileManager } from "@/components/profile-manager"
+import { DataProblems } from "@/components/data-problems"
+import { LiveIndicator } from "@/components/live-indicator"
+import { LiveWeighInPanel } from "@/components/live-weigh-in"
+import { SampleUploadPanel } from "@/components/sample-upload"
+import { useProfiles } from "@/hooks/use-profiles"
+import { useDataProblems } from "@/hooks/use-data-problems"
+import { useWeightChanges } from "@/hooks/use-weight-changes"
+import { useCalibrations } from "@/hooks/use-calibrations"
+import { useGoals } from "@/hooks/use-goals"
+import { useViewState } from "@/hooks/use-view-state"
+import { useTimeOfDayBuckets } from "@/hooks/use-time-of-day"
+import { rangeBounds, type TrendRange } from "@/lib/view-state"
+import { classifyTimeOfDay } from "@/lib/time-of-day"
+import { NO_PROFILE_GOAL } from "@/lib/goals"
+import { applyCalibration, measurementsByEvent } from "@/lib/calibration"
+import { assignProfiles } from "@/lib/profiles"
+import type { RecalculateJob } from "@/lib/server/recalculate-jobs"
+import type { EventList, EventPage, EventSummary, TrendPoint } from "@/lib/server/weight-data"
+import type { DataProblem } from "@/lib/domain"
+import {
+  applyChangeToGraphs,
+  applyChangeToTrend,
+  createSupabaseChangeFeed,
+  type ChangeFeed,
+  type WeightChange,
+} from "@/lib/realtime"
+
+const PAGE_SIZE = 20
+// Lighter readings are left out of the trend unless a profile is selected
+const MIN_TREND_WEIGHT_KG = 50
+
+const rangeLabel = (range: TrendRange) =>
+  range.kind === "all"
+    ? "All time"
+    : range.kind === "preset"
+      ? `Last ${range.days} days`
+      : `${range.from} to ${range.to}`
+
+class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly code?: string,
+  ) {
+    super(message)
+  }
+}
 
-type DataPoint = {
-  t: number
-  kg: number
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url)
+  const result = await response.json()
+  if (!response.ok) throw new RequestError(result.error?.message || `Request to ${url} failed`, result.error?.code)
+  return result
 }
 
-type WeightEventResult = {
-  id: string
-  event_id: string
-  scale_id: string
-  computed_at: string
-  algorithm_version: string
-  mode: string
-  raw_stable_weight_kg: number
-  raw_uncertainty_kg: number
-  raw_quality: number
-  window_start_s: number
-  window_end_s: number
-  duration_s: number
-  mean_slope_kg_per_s: number
-  mean_std_kg: number
-  n_points: number
-  consensus_weight_kg: number | null
-  consensus_uncertainty_kg: number | null
-  consensus_band_kg: number | null
-  consensus_mode: string | null
-  consensus_window_start_s: number | null
-  consensus_window_end_s: number | null
-  consensus_duration_s: number | null
-  metadata: any | null
+function createDefaultChangeFeed(): ChangeFeed | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !supabaseKey) return null
+  return createSupabaseChangeFeed(createBrowserClient(supabaseUrl, supabaseKey))
 }
 
-type GraphData = {
-  id: string
-  started_at: string
-  samples: DataPoint[]
-  results?: WeightEventResult
+type DashboardClientProps = {
+  // Source of realtime row changes; defaults to a Supabase channel, null disables live updates
+  changeFeed?: ChangeFeed | null
 }
 
-export function DashboardClient() {
-  const [graphs, setGraphs] = useState<GraphData[]>([])
+export function DashboardClient({ changeFeed }: DashboardClientProps = {}) {
+  const [graphs, setGraphs] = useState<EventSummary[]>([])
+  const graphsRef = useRef(graphs)
+  graphsRef.current = graphs
+  const [trendPoints, setTrendPoints] = useState<TrendPoint[]>([])
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const sentinelRef = useRef<HTMLDivElement>(null)
   const [error, setError] = useState<string | null>(null)
   const [recalculating, setRecalculating] = useState(false)
   const [recalcMessage, setRecalcMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [recalcJob, setRecalcJob] = useState<RecalculateJob | null>(null)
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [algorithmVersion, setAlgorithmVersion] = useState("")
+  // Recalculation needs a signed-in caller; viewing does not
+  const { user, signOut } = useSession()
+  const canRecalculate = user !== null
+  // Range, profile, scale and smoothing live in the URL so views can be shared
+  const [view, updateView] = useViewState()
+  const scaleFilter = view.scale
+  const [showProfileManager, setShowProfileManager] = useState(false)
+  const [showLiveWeighIn, setShowLiveWeighIn] = useState(false)
+  const [showSampleUpload, setShowSampleUpload] = useState(false)
+  const [droppedFile, setDroppedFile] = useState<File | null>(null)
+  const [draggingFile, setDraggingFile] = useState(false)
+  const { profiles, overrides, addProfile, updateProfile, removeProfile, assignEvent } = useProfiles()
+  const { problems, reportProblems, clearProblems } = useDataProblems()
+  const referenceMeasurements = useMemo(() => measurementsByEvent(trendPoints), [trendPoints])
+  const {
+    points: referencePoints,
+    calibrations,
+    recordReference,
+    calibrationEnabled,
+    setCalibrationEnabled,
+  } = useCalibrations(referenceMeasurements)
+  const { goals, setGoal, clearGoal } = useGoals()
+  const units = useUnits()
+  const { buckets: timeOfDayBuckets, setBuckets: setTimeOfDayBuckets, resetBuckets } = useTimeOfDayBuckets()
+  const referenceByEvent = useMemo(
+    () => new Map(referencePoints.map((point) => [point.event_id, point.reference_kg])),
+    [referencePoints],
+  )
 
-  const fetchData = async () => {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  const fetchTrend = async () => {
+    const trend = await getJson<{ points: TrendPoint[]; problems: DataProblem[] }>("/api/trend")
+    setTrendPoints(trend.points)
+    reportProblems(trend.problems)
+  }
 
-    if (!supabaseUrl || !supabaseKey) {
-      setError("missing_credentials")
+  const fetchData = async () => {
+    try {
+      const [firstPage] = await Promise.all([
+        getJson<EventPage>(`/api/events?page=1&pageSize=${PAGE_SIZE}`),
+        fetchTrend(),
+      ])
+
+      console.log("[v0] Fetched weight events:", firstPage)
+
+      setGraphs(firstPage.events)
+      reportProblems(firstPage.problems)
+      setPage(1)
+      setTotal(firstPage.total)
+      setHasMore(firstPage.hasMore)
+    } catch (err) {
+      console.error("[v0] Error fetching data:", err)
+      if (err instanceof RequestError && err.code === "config_missing") {
+        setError("missing_credentials")
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to fetch data")
+      }
+    } finally {
       setLoading(false)
-      return
     }
+  }
 
-    const supabase = createBrowserClient(supabaseUrl, supabaseKey)
+  const loadMore = async () => {
+    if (loadingMore || !hasMore) return
+    setLoadingMore(true)
 
     try {
-      const { data: eventsData, error: eventsError } = await supabase
-        .from("weight_events")
-        .select("*")
-        .order("started_at", { ascending: false })
+      const next = await getJson<EventPage>(`/api/events?page=${page + 1}&pageSize=${PAGE_SIZE}`)
+      setGraphs((prev) => {
+        const known = new Set(prev.map((graph) => graph.id))
+        return [...prev, ...next.events.filter((event) => !known.has(event.id))]
+      })
+      reportProblems(next.problems)
+      setPage(next.page)
+      setTotal(next.total)
+      setHasMore(next.hasMore)
+    } catch (err) {
+      console.error("[v0] Error loading more events:", err)
+      setHasMore(false)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
 
-      if (eventsError) throw eventsError
+  // Reloads only the given events and their latest results, merging them into the grid
+  const refreshEvents = async (eventIds: string[]) => {
+    if (eventIds.length === 0) return
 
-      console.log("[v0] Fetched weight events:", eventsData)
+    try {
+      const chunks: string[][] = []
+      for (let i = 0; i < eventIds.length; i += PAGE_SIZE) chunks.push(eventIds.slice(i, i + PAGE_SIZE))
+
+      const [responses] = await Promise.all([
+        Promise.all(
+          chunks.map((ids) =>
+            getJson<EventList>(`/api/events?ids=${ids.map(encodeURIComponent).join(",")}`),
+          ),
+        ),
+        fetchTrend(),
+      ])
+
+      responses.forEach((response) => reportProblems(response.problems))
+      const refreshed = new Map(responses.flatMap((response) => response.events).map((event) => [event.id, event]))
+
+      // Only events already on screen are replaced; the rest arrive with their page
+      setGraphs((prev) => prev.map((graph) => refreshed.get(graph.id) ?? graph))
+    } catch (err) {
+      console.error("[v0] Error refreshing events:", err)
+    }
+  }
 
-      const { data: resultsData, error: resultsError } = await supabase
-        .from("weight_event_results")
-        .select("*")
-        .order("computed_at", { ascending: false })
+  const handleChange = (change: WeightChange) => {
+    const update = applyChangeToGraphs(graphsRef.current, change)
+    reportProblems(update.problems)
 
-      if (resultsError) {
-        console.warn("[v0] Error fetching weight_event_results:", resultsError)
+    if (update.graphs !== graphsRef.current) {
+      graphsRef.current = update.graphs
+      setGraphs(update.graphs)
+    }
+    if (update.totalDelta !== 0) setTotal((prev) => prev + update.totalDelta)
+    setTrendPoints((prev) => applyChangeToTrend(prev, change, update.graphs))
+
+    if (change.table === "weight_events" && change.eventType === "DELETE") {
+      const id = change.old.id
+      setSelectedIds((prev) => {
+        if (typeof id !== "string" || !prev.has(id)) return prev
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    }
+
+    // A deleted result may have been the one shown, so fall back to whatever is now latest
+    if (change.table === "weight_event_results" && change.eventType === "DELETE") {
+      if (update.staleEventIds.length > 0) refreshEvents(update.staleEventIds)
+      else fetchTrend().catch((err) => console.error("[v0] Error reloading trend:", err))
+    }
+  }
+
+  const feed = useMemo(() => (changeFeed !== undefined ? changeFeed : createDefaultChangeFeed()), [changeFeed])
+  const liveStatus = useWeightChanges(error ? null : feed, handleChange)
+
+  const pollJob = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/recalculate/${jobId}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || "Failed to fetch recalculation status")
       }
 
-      console.log("[v0] Fetched weight event results:", resultsData)
+      const job: RecalculateJob = result.job
+      setRecalcJob(job)
 
-      const resultsMap = new Map<string, WeightEventResult>()
-      if (resultsData) {
-        for (const result of resultsData) {
-          if (!resultsMap.has(result.event_id)) {
-            resultsMap.set(result.event_id, result)
-          }
-        }
+      if (job.status === "running") {
+        pollTimer.current = setTimeout(() => pollJob(jobId), 1000)
+        return
       }
 
-      const combinedData: GraphData[] = (eventsData || []).map((event) => ({
-        ...event,
-        results: resultsMap.get(event.id),
-      }))
+      setRecalculating(false)
+      if (job.status === "failed") {
+        setRecalcMessage({ type: "error", text: job.error ?? "Recalculation failed" })
+        return
+      }
 
-      setGraphs(combinedData)
+      setRecalcMessage({
+        type: "success",
+        text: `Recalculated ${job.processed} event${job.processed !== 1 ? "s" : ""}${
+          job.failed > 0 ? `, ${job.failed} failed` : ""
+        }`,
+      })
+      // A worker that does not report event ids leaves nothing to refresh by id, so reload the first page
+      if (job.event_ids?.length) await refreshEvents(job.event_ids)
+      else await fetchData()
     } catch (err) {
-      console.error("[v0] Error fetching data:", err)
-      setError(err instanceof Error ? err.message : "Failed to fetch data")
-    } finally {
-      setLoading(false)
+      console.error("[v0] Error polling recalculation job:", err)
+      setRecalculating(false)
+      setRecalcMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to fetch recalculation status",
+      })
     }
   }
 
   useEffect(() => {
     fetchData()
+    return () => {
+      if (pollTimer.current) clearTimeout(pollTimer.current)
+    }
   }, [])
 
+  // Infinite scroll: loadMore reads page and loadingMore, so the observer is recreated when they change
+  useEffect(() => {
+    const node = sentinelRef.current
+    if (!node || !hasMore) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadMore()
+    })
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [hasMore, page, loadingMore])
+
   const handleDelete = () => {
     setLoading(true)
     fetchData()
   }
 
-  const handleRecalculate = async () => {
+  // With no event ids the worker drains its queue; otherwise only those events are reprocessed.
+  // The version is passed by the caller, so only the selection bar sends the one typed there.
+  const handleRecalculate = async (eventIds?: string[], version?: string): Promise<boolean> => {
     setRecalculating(true)
     setRecalcMessage(null)
 
     try {
       const response = await fetch("/api/recalculate", {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(eventIds && { event_ids: eventIds }),
+          ...(eventIds && version && { algorithm_version: version }),
+        }),
       })
 
       const result = await response.json()
 
       if (!response.ok) {
-        throw new Error(result.error || "Recalculation failed")
+        throw new Error(result.error?.message || "Recalculation failed")
       }
 
-      setRecalcMessage({ type: "success", text: "Weight recalculation started successfully" })
-
-      // Refresh data after a short delay to allow processing
-      setTimeout(() => {
-        window.location.reload()
-      }, 2000)
+      setRecalcJob(result.job)
+      pollJob(result.job.id)
+      return true
     } catch (err) {
       console.error("[v0] Error recalculating weights:", err)
       setRecalcMessage({
         type: "error",
         text: err instanceof Error ? err.message : "Failed to recalculate weights",
       })
-    } finally {
       setRecalculating(false)
+      return false
+    }
+  }
+
+  // Per-card recalculations leave the selection alone; this one clears it once the job has started
+  const recalculateSelected = async () => {
+    const started = await handleRecalculate(Array.from(selectedIds), algorithmVersion.trim() || undefined)
+    if (started) setSelectedIds(new Set())
+  }
+
+  // The new event is merged like a Realtime insert, which it also arrives as when the feed is live
+  const handleSampleUploadSaved = (event: EventSummary, recalculate: boolean) => {
+    handleChange({ table: "weight_events", eventType: "INSERT", new: event, old: {} })
+    setShowSampleUpload(false)
+    setDroppedFile(null)
+    if (recalculate && canRecalculate) handleRecalculate([event.id])
+  }
+
+  const handleFileDrop = (e: DragEvent) => {
+    e.preventDefault()
+    setDraggingFile(false)
+    const file = e.dataTransfer.files[0]
+    if (!file) return
+    setDroppedFile(file)
+    setShowSampleUpload(true)
+  }
+
+  const recalcProgress = useMemo(() => {
+    if (!recalcJob) return null
+    if (recalcJob.status !== "running") return 100
+    if (recalcJob.remaining === null) return null
+    const total = recalcJob.processed + recalcJob.failed + recalcJob.remaining
+    return total > 0 ? ((recalcJob.processed + recalcJob.failed) / total) * 100 : 0
+  }, [recalcJob])
+
+  const profileAssignments = useMemo(() => {
+    // Reference-mass weigh-ins are calibration data, not people
+    return assignProfiles(
+      trendPoints
+        .filter((point) => !referenceByEvent.has(point.event_id))
+        .map((point) => ({
+          id: point.event_id,
+          started_at: point.started_at,
+          weightKg: point.raw_stable_weight_kg,
+        })),
+      profiles,
+      overrides,
+    )
+  }, [trendPoints, profiles, overrides, referenceByEvent])
+
+  // A shared link may name a profile this browser does not have
+  const profileFilter =
+    view.profile === "unassigned" || profiles.some((p) => p.id === view.profile) ? view.profile : "all"
+  const selectedProfile = profiles.find((p) => p.id === profileFilter) ?? null
+  // A goal belongs to one person, so it needs a profile unless none are set up
+  const goalKey = selectedProfile?.id ?? (profiles.length === 0 ? NO_PROFILE_GOAL : null)
+
+  const scaleIds = useMemo(() => {
+    const ids = new Set(trendPoints.map((point) => point.scale_id))
+    for (const graph of graphs) if (graph.results) ids.add(graph.results.scale_id)
+    if (scaleFilter !== "all") ids.add(scaleFilter)
+    return Array.from(ids).sort()
+  }, [trendPoints, graphs, scaleFilter])
+
+  const visibleGraphs = useMemo(() => {
+    const onScale =
+      scaleFilter === "all" ? graphs : graphs.filter((graph) => graph.results?.scale_id === scaleFilter)
+    if (profileFilter === "all") return onScale
+    if (profileFilter === "unassigned") return onScale.filter((graph) => !profileAssignments.get(graph.id))
+    return onScale.filter((graph) => profileAssignments.get(graph.id) === profileFilter)
+  }, [graphs, scaleFilter, profileFilter, profileAssignments])
+
+  // Exports follow the trend's range and the scale and profile filters
+  const exportFilter = useMemo(() => {
+    const bounds = rangeBounds(view.range)
+    const eventIds =
+      profileFilter === "all"
+        ? undefined
+        : Array.from(profileAssignments)
+            .filter(([, profileId]) => (profileFilter === "unassigned" ? !profileId : profileId === profileFilter))
+            .map(([eventId]) => eventId)
+    return {
+      start: bounds?.start,
+      end: bounds?.end,
+      scaleId: scaleFilter === "all" ? undefined : scaleFilter,
+      eventIds,
     }
+  }, [view.range, profileFilter, profileAssignments, scaleFilter])
+
+  const exportDescription = [
+    rangeLabel(view.range),
+    scaleFilter === "all" ? "all scales" : scaleFilter,
+    selectedProfile?.name ?? (profileFilter === "unassigned" ? "unassigned" : "all profiles"),
+  ].join(" · ")
+
+  const toggleSelected = (eventId: string, selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (selected) next.add(eventId)
+      else next.delete(eventId)
+      return next
+    })
   }
 
+  const allVisibleSelected = visibleGraphs.length > 0 && visibleGraphs.every((graph) => selectedIds.has(graph.id))
+
+  const profileEventCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const profileId of profileAssignments.values()) {
+      if (profileId) counts.set(profileId, (counts.get(profileId) ?? 0) + 1)
+    }
+    return counts
+  }, [profileAssignments])
+
   const trendData = useMemo(() => {
-    return graphs
-      .filter((graph) => graph.results && graph.results.raw_stable_weight_kg > 50)
-      .map((graph) => ({
-        timestamp: new Date(graph.started_at).getTime(),
-        date: graph.started_at,
-        weight: graph.results!.raw_stable_weight_kg,
-        uncertainty: graph.results!.raw_uncertainty_kg,
-        quality: graph.results!.raw_quality,
+    // Trend points cover every event, not just the pages loaded so far
+    return trendPoints
+      .filter((point) => {
+        if (referenceByEvent.has(point.event_id)) return false
+        if (scaleFilter !== "all" && point.scale_id !== scaleFilter) return false
+        const profileId = profileAssignments.get(point.event_id)
+        if (profileFilter === "unassigned") return !profileId
+        if (selectedProfile) return profileId === selectedProfile.id
+        return point.raw_stable_weight_kg > MIN_TREND_WEIGHT_KG
+      })
+      .map((point) => ({
+        timestamp: new Date(point.started_at).getTime(),
+        date: point.started_at,
+        weight: calibrationEnabled
+          ? applyCalibration(point.raw_stable_weight_kg, calibrations.get(point.scale_id))
+          : point.raw_stable_weight_kg,
+        rawWeight: point.raw_stable_weight_kg,
+        uncertainty: point.raw_uncertainty_kg,
+        quality: point.raw_quality,
+        source: point.source,
       }))
-      .sort((a, b) => a.timestamp - b.timestamp)
-  }, [graphs])
+  }, [
+    trendPoints,
+    profileAssignments,
+    profileFilter,
+    selectedProfile,
+    scaleFilter,
+    referenceByEvent,
+    calibrationEnabled,
+    calibrations,
+  ])
+
+  // Morning weigh-ins compare like with like across days
+  const trendChartData = useMemo(
+    () =>
+      view.morningOnly
+        ? trendData.filter((point) => classifyTimeOfDay(new Date(point.timestamp), timeOfDayBuckets) === "morning")
+        : trendData,
+    [trendData, view.morningOnly, timeOfDayBuckets],
+  )
 
   if (loading) {
     return (
@@ -228,27 +582,157 @@ export function DashboardClient() {
   }
 
   return (
-    <div className="min-h-screen bg-background">
+    <div
+      className="min-h-screen bg-background"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return
+        e.preventDefault()
+        setDraggingFile(true)
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDraggingFile(false)
+      }}
+      onDrop={handleFileDrop}
+    >
+      {draggingFile && (
+        <div
+          className={
+            "pointer-events-none fixed inset-0 z-50 flex items-center justify-center " +
+            "border-4 border-dashed border-primary bg-background/80"
+          }
+        >
+          <p className="text-lg font-medium">Drop a JSON or CSV sample file to preview it</p>
+        </div>
+      )}
       <header className="border-b">
         <div className="container mx-auto px-4 py-6">
           <div className="flex items-start justify-between gap-4">
             <div className="flex-1">
               <h1 className="font-sans text-3xl font-bold tracking-tight">AutoScale Dashboard</h1>
               <p className="mt-2 text-muted-foreground">
-                Visualizing time-series weight data with {graphs.length} dataset{graphs.length !== 1 ? "s" : ""}
+                Visualizing time-series weight data with {visibleGraphs.length} dataset
+                {visibleGraphs.length !== 1 ? "s" : ""}
+                {hasMore && ` (${total} in total)`}
               </p>
             </div>
-            <Button
-              onClick={handleRecalculate}
-              disabled={recalculating}
-              variant="outline"
-              className="shrink-0 bg-transparent"
-            >
-              <RefreshCw className={`mr-2 h-4 w-4 ${recalculating ? "animate-spin" : ""}`} />
-              {recalculating ? "Recalculating..." : "Recalculate Weights"}
-            </Button>
+            <div className="flex shrink-0 items-center gap-2">
+              <LiveIndicator status={liveStatus} />
+              <Button variant="ghost" onClick={() => setShowLiveWeighIn((v) => !v)}>
+                <Activity className="mr-2 h-4 w-4" />
+                Live Weigh-in
+              </Button>
+              <Button variant="ghost" onClick={() => setShowSampleUpload((v) => !v)}>
+                <FileUp className="mr-2 h-4 w-4" />
+                Upload Samples
+              </Button>
+              <Button asChild variant="ghost">
+                <Link href="/devices">
+                  <Scale className="mr-2 h-4 w-4" />
+                  Devices
+                </Link>
+              </Button>
+              <Button asChild variant="ghost">
+                <Link href="/import">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Link>
+              </Button>
+              <Button asChild variant="ghost">
+                <Link href="/synthetic">
+                  <FlaskConical className="mr-2 h-4 w-4" />
+                  Synthetic
+                </Link>
+              </Button>
+              <Button asChild variant="ghost">
+                <Link href="/reports/versions">
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  Version Report
+                </Link>
+              </Button>
+              <UnitSettings />
+              {user ? (
+                <Button variant="ghost" onClick={signOut} title={user.email ?? undefined}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sign out
+                </Button>
+              ) : (
+                <Button asChild variant="ghost">
+                  <Link href="/sign-in">
+                    <LogIn className="mr-2 h-4 w-4" />
+                    Sign in
+                  </Link>
+                </Button>
+              )}
+              <ExportMenu filter={exportFilter} description={exportDescription} />
+              {scaleIds.length > 1 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="bg-transparent">
+                      <Scale className="mr-2 h-4 w-4" />
+                      {scaleFilter === "all" ? "All scales" : scaleFilter}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-48">
+                    <DropdownMenuRadioGroup value={scaleFilter} onValueChange={(scale) => updateView({ scale })}>
+                      <DropdownMenuRadioItem value="all">All scales</DropdownMenuRadioItem>
+                      {scaleIds.map((scaleId) => (
+                        <DropdownMenuRadioItem key={scaleId} value={scaleId} className="font-mono text-xs">
+                          {scaleId}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="bg-transparent">
+                    <Users className="mr-2 h-4 w-4" />
+                    {selectedProfile?.name ?? (profileFilter === "unassigned" ? "Unassigned" : "All profiles")}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-48">
+                  <DropdownMenuRadioGroup value={profileFilter} onValueChange={(profile) => updateView({ profile })}>
+                    <DropdownMenuRadioItem value="all">All profiles</DropdownMenuRadioItem>
+                    {profiles.map((profile) => (
+                      <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+                        <div className="mr-2 h-2 w-2 rounded-full" style={{ background: profile.color }} />
+                        {profile.name}
+                      </DropdownMenuRadioItem>
+                    ))}
+                    {profiles.length > 0 && (
+                      <DropdownMenuRadioItem value="unassigned">Unassigned</DropdownMenuRadioItem>
+                    )}
+                  </DropdownMenuRadioGroup>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setShowProfileManager((v) => !v)}>
+                    {showProfileManager ? "Hide profile manager" : "Manage profiles..."}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                onClick={() => handleRecalculate()}
+                disabled={recalculating || !canRecalculate}
+                title={canRecalculate ? undefined : "Sign in required"}
+                variant="outline"
+                className="bg-transparent"
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${recalculating ? "animate-spin" : ""}`} />
+                {recalculating ? "Recalculating..." : canRecalculate ? "Recalculate Weights" : "Sign in to recalculate"}
+              </Button>
+            </div>
           </div>
 
+          {recalculating && recalcJob && (
+            <div className="mt-4 space-y-2">
+              <Progress value={recalcProgress ?? 0} className={recalcProgress === null ? "animate-pulse" : ""} />
+              <p className="text-xs text-muted-foreground">
+                Batch {recalcJob.batches} · {recalcJob.processed} processed · {recalcJob.failed} failed ·{" "}
+                {recalcJob.remaining ?? "?"} remaining
+              </p>
+            </div>
+          )}
+
           {recalcMessage && (
             <Alert className={`mt-4 ${recalcMessage.type === "error" ? "border-destructive" : "border-green-500"}`}>
               <AlertCircle className="h-4 w-4" />
@@ -260,34 +744,180 @@ export function DashboardClient() {
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        {trendData.length > 0 && (
+        {showProfileManager && (
           <div className="mb-6">
-            <WeightTrendChart data={trendData} />
+            <ProfileManager
+              profiles={profiles}
+              eventCounts={profileEventCounts}
+              onAdd={addProfile}
+              onUpdate={updateProfile}
+              onRemove={removeProfile}
+            />
           </div>
         )}
 
-        {graphs.length === 0 ? (
+        {showLiveWeighIn && (
+          <div className="mb-6">
+            <LiveWeighInPanel onClose={() => setShowLiveWeighIn(false)} />
+          </div>
+        )}
+
+        {showSampleUpload && (
+          <div className="mb-6">
+            <SampleUploadPanel
+              file={droppedFile}
+              onClose={() => {
+                setShowSampleUpload(false)
+                setDroppedFile(null)
+              }}
+              onSaved={handleSampleUploadSaved}
+              signedIn={user !== null}
+            />
+          </div>
+        )}
+
+        {problems.length > 0 && (
+          <div className="mb-6">
+            <DataProblems problems={problems} onDismiss={clearProblems} />
+          </div>
+        )}
+
+        {trendData.length > 0 && (
+          <div className="mb-6 space-y-4">
+            <WeightTrendChart
+              data={trendChartData}
+              filterLabel={
+                selectedProfile
+                  ? selectedProfile.name
+                  : `weights > ${units.format(MIN_TREND_WEIGHT_KG, { digits: 0, plain: true })}`
+              }
+              color={selectedProfile?.color}
+              goalKg={goalKey ? goals[goalKey]?.targetKg : undefined}
+              range={view.range}
+              onRangeChange={(range) => updateView({ range })}
+              smoothing={view.smoothing}
+              onSmoothingChange={(smoothing) => updateView({ smoothing })}
+              morningOnly={view.morningOnly}
+              onMorningOnlyChange={(morningOnly) => updateView({ morningOnly })}
+            />
+            {/* Every weigh-in, whatever the chart filter, so startKg and progress keep one basis */}
+            {goalKey && (
+              <GoalPanel
+                goal={goals[goalKey]}
+                points={trendData}
+                label={selectedProfile?.name ?? "everyone"}
+                onSave={(goal) => setGoal(goalKey, goal)}
+                onClear={() => clearGoal(goalKey)}
+              />
+            )}
+            <TimeOfDayChart
+              data={trendData}
+              range={view.range}
+              buckets={timeOfDayBuckets}
+              onBucketsChange={setTimeOfDayBuckets}
+              onResetBuckets={resetBuckets}
+            />
+          </div>
+        )}
+
+        {visibleGraphs.length === 0 ? (
           <Card>
             <CardHeader>
               <CardTitle>No Data Available</CardTitle>
               <CardDescription>
-                No graph data found in your Supabase table. Add some data to get started.
+                {graphs.length === 0
+                  ? "No graph data found in your Supabase table. Add some data to get started."
+                  : "No loaded weight events match the selected scale and profile."}
               </CardDescription>
             </CardHeader>
           </Card>
         ) : (
-          <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
-            {graphs.map((graph) => (
-              <DataChart
-                key={graph.id}
-                title={new Date(graph.started_at).toLocaleString()}
-                data={graph.samples}
-                createdAt={graph.started_at}
-                results={graph.results}
-                eventId={graph.id}
-                onDelete={handleDelete}
-              />
-            ))}
+          <>
+            <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={allVisibleSelected}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds(checked === true ? new Set(visibleGraphs.map((graph) => graph.id)) : new Set())
+                  }
+                />
+                <span className="text-muted-foreground">
+                  {selectedIds.size > 0 ? `${selectedIds.size} selected` : "Select all"}
+                </span>
+              </label>
+              {calibrations.size > 0 && (
+                <label className="flex items-center gap-2">
+                  <Checkbox
+                    checked={calibrationEnabled}
+                    onCheckedChange={(checked) => setCalibrationEnabled(checked === true)}
+                  />
+                  <span className="text-muted-foreground">Apply scale calibration</span>
+                </label>
+              )}
+              {selectedIds.size > 0 && (
+                <>
+                  <input
+                    className="h-8 w-48 rounded-md border bg-transparent px-2 text-sm"
+                    placeholder="Algorithm version (optional)"
+                    value={algorithmVersion}
+                    onChange={(e) => setAlgorithmVersion(e.target.value)}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="bg-transparent"
+                    disabled={recalculating || !canRecalculate}
+                    title={canRecalculate ? undefined : "Sign in required"}
+                    onClick={recalculateSelected}
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Recalculate selected
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set())}>
+                    Clear
+                  </Button>
+                </>
+              )}
+            </div>
+            <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
+              {visibleGraphs.map((graph) => (
+                <LazyDataChart
+                  key={`${graph.id}:${graph.results?.id ?? "none"}`}
+                  title={new Date(graph.started_at).toLocaleString()}
+                  createdAt={graph.started_at}
+                  results={graph.results}
+                  eventId={graph.id}
+                  onProblems={reportProblems}
+                  onDelete={handleDelete}
+                  profiles={profiles}
+                  profileId={profileAssignments.get(graph.id) ?? null}
+                  profilePinned={graph.id in overrides}
+                  onAssignProfile={(profileId) => assignEvent(graph.id, profileId)}
+                  onRecalculate={() => handleRecalculate([graph.id])}
+                  recalculating={recalculating}
+                  canRecalculate={canRecalculate}
+                  selected={selectedIds.has(graph.id)}
+                  onSelectedChange={(selected) => toggleSelected(graph.id, selected)}
+                  calibration={
+                    calibrationEnabled && graph.results ? calibrations.get(graph.results.scale_id) : null
+                  }
+                  referenceKg={referenceByEvent.get(graph.id) ?? null}
+                  timeOfDayBuckets={timeOfDayBuckets}
+                  onRecordReference={(referenceKg) =>
+                    recordReference({ event_id: graph.id, reference_kg: referenceKg })
+                  }
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        {hasMore && (
+          <div ref={sentinelRef} className="mt-6 flex justify-center">
+            <Button variant="outline" className="bg-transparent" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore && <Spinner className="mr-2 h-4 w-4" />}
+              {loadingMore ? "Loading..." : `Load more (${graphs.length} of ${total})`}
+            </Button>
           </div>
         )}
       </main>
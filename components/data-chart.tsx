@@ -9,6 +9,7 @@ import {
   ResponsiveContainer,
   Brush,
   ReferenceArea,
+  ReferenceLine,
   Area,
   Tooltip,
   Bar,
@@ -18,19 +19,39 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { ChartContainer } from "@/components/ui/chart"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { createClient } from "@supabase/supabase-js"
-
-type DataPoint = {
-  t: number
-  kg: number
-}
+import { Scale } from "lucide-react"
+import { AlgorithmComparison } from "@/components/algorithm-comparison"
+import { ResultHistory } from "@/components/result-history"
+import { SignalProcessingPanel } from "@/components/signal-processing-panel"
+import { useSignalProcessing } from "@/components/signal-processing-provider"
+import { computeStableWeight, stableRegions } from "@/lib/stable-weight"
+import { processSignal } from "@/lib/signal-processing"
+import { DEFAULT_ESTIMATOR_ID, getEstimator, listEstimators } from "@/lib/estimators"
+import type { Profile } from "@/lib/profiles"
+import { parseSamples, type DataPoint, type DataProblem, type WeightEventResult } from "@/lib/domain"
+import { applyCalibration, type Calibration } from "@/lib/calibration"
+import { useUnits } from "@/components/units-provider"
+import {
+  DEFAULT_TIME_OF_DAY_BUCKETS,
+  TIME_OF_DAY_LABELS,
+  classifyTimeOfDay,
+  type TimeOfDayBuckets,
+} from "@/lib/time-of-day"
 
 type SupabaseFetchOptions = {
   table?: string
@@ -43,31 +64,8 @@ type SupabaseFetchOptions = {
   limit?: number
 }
 
-type WeightEventResult = {
-  id: string
-  event_id: string
-  scale_id: string
-  computed_at: string
-  algorithm_version: string
-  mode: string
-  raw_stable_weight_kg: number
-  raw_uncertainty_kg: number
-  raw_quality: number
-  window_start_s: number
-  window_end_s: number
-  duration_s: number
-  mean_slope_kg_per_s: number
-  mean_std_kg: number
-  n_points: number
-  consensus_weight_kg: number | null
-  consensus_uncertainty_kg: number | null
-  consensus_band_kg: number | null
-  consensus_mode: string | null
-  consensus_window_start_s: number | null
-  consensus_window_end_s: number | null
-  consensus_duration_s: number | null
-  metadata: any | null
-}
+const HISTORY_COLORS = ["#f97316", "#a855f7", "#ef4444", "#eab308", "#06b6d4", "#ec4899"]
+const NO_HISTORY: WeightEventResult[] = []
 
 type DataChartProps = {
   title: string
@@ -75,11 +73,54 @@ type DataChartProps = {
   createdAt?: string
   fetchOptions?: SupabaseFetchOptions
   results?: WeightEventResult
+  history?: WeightEventResult[]
   eventId?: string
   onDelete?: () => void
+  profiles?: Profile[]
+  profileId?: string | null
+  profilePinned?: boolean
+  // undefined returns the event to automatic assignment
+  onAssignProfile?: (profileId: string | null | undefined) => void
+  onRecalculate?: () => void
+  recalculating?: boolean
+  // False while signed out; the item stays visible but disabled
+  canRecalculate?: boolean
+  selected?: boolean
+  onSelectedChange?: (selected: boolean) => void
+  // Invalid rows skipped by the fetchOptions path
+  onProblems?: (problems: DataProblem[]) => void
+  // Applied to the displayed stable weight; the raw value stays visible next to it
+  calibration?: Calibration | null
+  // Known mass this weigh-in was declared as, if any
+  referenceKg?: number | null
+  onRecordReference?: (referenceKg: number) => void
+  timeOfDayBuckets?: TimeOfDayBuckets
 }
 
-export function DataChart({ title, data, createdAt, fetchOptions, results, eventId, onDelete }: DataChartProps) {
+export function DataChart({
+  title,
+  data,
+  createdAt,
+  fetchOptions,
+  results,
+  history = NO_HISTORY,
+  eventId,
+  onDelete,
+  profiles = [],
+  profileId = null,
+  profilePinned = false,
+  onAssignProfile,
+  onRecalculate,
+  recalculating = false,
+  canRecalculate = true,
+  selected = false,
+  onSelectedChange,
+  onProblems,
+  calibration = null,
+  referenceKg = null,
+  onRecordReference,
+  timeOfDayBuckets = DEFAULT_TIME_OF_DAY_BUCKETS,
+}: DataChartProps) {
   const [rows, setRows] = useState<DataPoint[]>(data ?? [])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -94,6 +135,15 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
   const [copied, setCopied] = useState(false)
   const [resultsCopied, setResultsCopied] = useState(false)
   const [deleting, setDeleting] = useState(false)
+  const [showComparison, setShowComparison] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showProcessing, setShowProcessing] = useState(false)
+  const { settings: processing, setSettings: setProcessing } = useSignalProcessing()
+  const [referenceInput, setReferenceInput] = useState<string | null>(null)
+  const units = useUnits()
+  const [overlayIds, setOverlayIds] = useState<Set<string>>(new Set())
+  const [estimatorId, setEstimatorId] = useState(DEFAULT_ESTIMATOR_ID)
+  const estimator = useMemo(() => getEstimator(estimatorId), [estimatorId])
 
   const WINDOW_HALF = 2500
   const [hoverWindow, setHoverWindow] = useState<{
@@ -111,7 +161,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
 
   useEffect(() => {
     modeCache.current.clear()
-  }, [rows])
+  }, [rows, estimator])
 
   useEffect(() => {
     if (data && data.length > 0) {
@@ -164,14 +214,9 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
         setError(qErr.message)
         setRows([])
       } else {
-        const normalized: DataPoint[] = (res as any[])
-          .map((r) => ({
-            t: typeof r.t === "number" ? r.t : r.t ? Number(r.t) : Number.NaN,
-            kg: typeof r.kg === "number" ? r.kg : r.kg ? Number(r.kg) : Number.NaN,
-          }))
-          .filter((p) => Number.isFinite(p.t) && Number.isFinite(p.kg))
-          .sort((a, b) => a.t - b.t)
-        setRows(normalized)
+        const { samples, problems } = parseSamples(res, eventId ?? null, table)
+        setRows(samples)
+        if (problems.length > 0) onProblems?.(problems)
       }
 
       setLoading(false)
@@ -233,31 +278,17 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
       const endIdx = Math.min(n - 1, (g + 1) * size - 1)
       if (startIdx > endIdx) break
       const slice = visibleRows.slice(startIdx, endIdx + 1)
-      // 0.1 kg binned mode
-      const bins = new Map<number, number>()
-      for (const r of slice) {
-        const key = Math.round((r.kg ?? 0) * 10) / 10
-        bins.set(key, (bins.get(key) ?? 0) + 1)
-      }
-      let best: number | null = null
-      let bestCount = 0
-      for (const [k, c] of bins.entries()) {
-        if (c > bestCount) {
-          best = k
-          bestCount = c
-        }
-      }
       out.push({
         startT: slice[0].t,
         endT: slice[slice.length - 1].t,
         startIdx,
         endIdx,
         count: slice.length,
-        modeKg: best,
+        modeKg: estimator.estimate(slice, "group").kg,
       })
     }
     return out
-  }, [visibleRows])
+  }, [visibleRows, estimator])
 
   const groupModeSeries = useMemo(() => {
     // For overlay line: one point per group, at the midpoint of the group, with modeKg
@@ -268,39 +299,12 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
     }))
   }, [groupedRanges])
 
-  const { estimatedWeightKg, estimatedModeCount } = useMemo(() => {
-    // Helper to compute 0.1 kg-binned mode from an array of rows
-    const modeFor = (arr: DataPoint[]) => {
-      const bins = new Map<number, number>()
-      for (const r of arr) {
-        const key = Math.round((r.kg ?? 0) * 10) / 10
-        bins.set(key, (bins.get(key) ?? 0) + 1)
-      }
-      let bestVal: number | null = null
-      let bestCount = 0
-      for (const [val, cnt] of bins.entries()) {
-        if (cnt > bestCount) {
-          bestCount = cnt
-          bestVal = val
-        } else if (cnt === bestCount && bestVal !== null && val > bestVal) {
-          bestVal = val
-        }
-      }
-      return { bestVal, bestCount }
-    }
-    if (!rows || rows.length === 0) {
-      return { estimatedWeightKg: null as number | null, estimatedModeCount: 0 }
-    }
-    const filtered = rows.filter((r) => (r.kg ?? 0) >= 9)
-    let res = { bestVal: null as number | null, bestCount: 0 }
-    if (filtered.length > 0) res = modeFor(filtered)
-    if (res.bestVal === null) res = modeFor(rows)
-    return { estimatedWeightKg: res.bestVal, estimatedModeCount: res.bestCount }
-  }, [rows])
+  const estimate = useMemo(() => estimator.estimate(rows ?? []), [rows, estimator])
+  const estimatedWeightKg = estimate.kg
+  const estimatedModeCount = estimate.support
 
   const estimatePoints = useMemo(() => {
     if (estimatedWeightKg == null) return [] as DataPoint[]
-    const target = Math.round(estimatedWeightKg * 10) / 10
     // Determine current visible X range
     let left = rows.length ? rows[0].t : Number.NEGATIVE_INFINITY
     let right = rows.length ? rows[rows.length - 1].t : Number.POSITIVE_INFINITY
@@ -308,11 +312,10 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
       left = zoomDomain.left
       right = zoomDomain.right
     }
-    // Only include points that exactly match the mode bin AND are within the visible X-range
+    // Only include points that support the estimate AND are within the visible X-range
     const matches = rows.filter((r) => {
       if (r.t < left || r.t > right) return false
-      const k = Math.round((r.kg ?? 0) * 10) / 10
-      return k === target
+      return estimate.isMember(r)
     })
     // Down-sample if there are too many markers
     const MAX_MARKERS = 250
@@ -321,7 +324,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
     const sampled: DataPoint[] = []
     for (let i = 0; i < matches.length; i += step) sampled.push(matches[i])
     return sampled
-  }, [rows, zoomDomain, estimatedWeightKg])
+  }, [rows, zoomDomain, estimate, estimatedWeightKg])
 
   const modePointsSet = useMemo(() => {
     return new Set(estimatePoints.map((p) => p.t))
@@ -362,10 +365,60 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
     return new Set(sampled)
   }, [rows, zoomDomain, results])
 
-  const estimatedWeightLbs = useMemo(() => {
-    if (estimatedWeightKg == null) return null
-    return estimatedWeightKg * 2.20462262185
-  }, [estimatedWeightKg])
+  const localResult = useMemo(() => {
+    if (!showComparison || !rows || rows.length === 0) return null
+    return computeStableWeight(rows)
+  }, [rows, showComparison])
+
+  const chartRows = useMemo(
+    () => (showProcessing && rows.length > 0 ? processSignal(rows, processing) : rows),
+    [rows, showProcessing, processing],
+  )
+
+  const stabilityRegions = useMemo(
+    () => (showProcessing ? stableRegions(rows, processing.thresholds) : []),
+    [rows, showProcessing, processing],
+  )
+
+  const tunedResult = useMemo(
+    () => (showProcessing && rows.length > 0 ? computeStableWeight(rows, processing.thresholds) : null),
+    [rows, showProcessing, processing],
+  )
+
+  const showSignalAxis = showProcessing && (processing.showDerivative || processing.showRollingStd)
+  // Step-on and step-off slopes dwarf the thresholds, so the axis is clipped to keep them readable
+  const signalLimit = 4 * Math.max(processing.thresholds.maxSlopeKgPerS, processing.thresholds.maxStdKg)
+
+  const historyColor = useCallback(
+    (resultId: string) => {
+      const index = history.findIndex((h) => h.id === resultId)
+      return HISTORY_COLORS[Math.max(0, index) % HISTORY_COLORS.length]
+    },
+    [history],
+  )
+
+  const overlayWindows = useMemo(
+    () =>
+      history
+        .filter((h) => overlayIds.has(h.id))
+        .map((h) => ({
+          id: h.id,
+          version: h.algorithm_version,
+          left: h.window_start_s * 1000,
+          right: h.window_end_s * 1000,
+          color: historyColor(h.id),
+        })),
+    [history, overlayIds, historyColor],
+  )
+
+  const toggleOverlay = (resultId: string, visible: boolean) => {
+    setOverlayIds((prev) => {
+      const next = new Set(prev)
+      if (visible) next.add(resultId)
+      else next.delete(resultId)
+      return next
+    })
+  }
 
   const groupForT = (t: number) => {
     if (!groupedRanges || groupedRanges.length === 0) return null
@@ -393,12 +446,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
     const max = Math.max(...weights)
     const avg = weights.reduce((a, b) => a + b, 0) / weights.length
 
-    return {
-      min: min.toFixed(2),
-      max: max.toFixed(2),
-      avg: avg.toFixed(2),
-      points: rows.length,
-    }
+    return { min, max, avg, points: rows.length }
   }, [rows])
 
   const formattedDate = useMemo(() => {
@@ -416,11 +464,12 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
     })
   }, [createdAt])
 
-  const timeOfDay = useMemo(() => {
-    const date = createdAt ? new Date(createdAt) : new Date()
-    const hour = date.getHours()
-    return hour < 15 ? "Morning" : "Night"
-  }, [createdAt])
+  const assignedProfile = useMemo(() => profiles.find((p) => p.id === profileId) ?? null, [profiles, profileId])
+
+  const timeOfDay = useMemo(
+    () => classifyTimeOfDay(createdAt ? new Date(createdAt) : new Date(), timeOfDayBuckets),
+    [createdAt, timeOfDayBuckets],
+  )
 
   const computeModeKgInWindow = useCallback(
     (
@@ -451,23 +500,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
         modeCache.current.set(roundedT, result)
         return result
       }
-      const bins = new Map<number, number>() // key: kg rounded to 0.1
-      for (const r of inRange) {
-        const key = Math.round((r.kg ?? 0) * 10) / 10
-        bins.set(key, (bins.get(key) ?? 0) + 1)
-      }
-      let best: number | null = null
-      let bestCount = 0
-      for (const [k, c] of bins.entries()) {
-        if (c > bestCount) {
-          bestCount = c
-          best = k
-        } else if (c === bestCount && best !== null && k > best) {
-          best = k
-        }
-      }
-
-      const result = { left, right, modeKg: best, count: inRange.length }
+      const result = { left, right, modeKg: estimator.estimate(inRange, "window").kg, count: inRange.length }
       modeCache.current.set(roundedT, result)
 
       if (modeCache.current.size > 1000) {
@@ -477,7 +510,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
 
       return result
     },
-    [rows, WINDOW_HALF],
+    [rows, estimator, WINDOW_HALF],
   )
 
   function indexForT(target: number): number {
@@ -609,7 +642,9 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
 
   const handleCopyData = async () => {
     try {
-      const jsonData = JSON.stringify(rows, null, 2)
+      // Samples stay in kg; other units are added alongside
+      const output = units.unit === "kg" ? rows : rows.map((row) => ({ ...row, [units.unit]: units.toExport(row.kg) }))
+      const jsonData = JSON.stringify(output, null, 2)
       await navigator.clipboard.writeText(jsonData)
       setCopied(true)
       setTimeout(() => setCopied(false), 2000)
@@ -621,7 +656,11 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
   const handleCopyResults = async () => {
     if (!results) return
     try {
-      const jsonData = JSON.stringify(results, null, 2)
+      const output =
+        units.unit === "kg"
+          ? results
+          : { ...results, [`raw_stable_weight_${units.unit}`]: units.toExport(results.raw_stable_weight_kg) }
+      const jsonData = JSON.stringify(output, null, 2)
       await navigator.clipboard.writeText(jsonData)
       setResultsCopied(true)
       setTimeout(() => setResultsCopied(false), 2000)
@@ -674,7 +713,8 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
     if (!active || !payload || payload.length === 0) return null
     const tNum = Number(label)
     const g = Number.isFinite(tNum) ? groupForT(tNum) : null
-    const modeText = g && g.modeKg !== null ? `${g.modeKg.toFixed(1)} kg` : "—"
+    const modeText =
+      g && g.modeKg !== null ? units.format(g.modeKg, { digits: estimator.decimals, plain: true }) : "—"
     const groupText = g ? `[${g.startT} → ${g.endT}] (N=${g.count})` : "—"
     return (
       <div
@@ -698,7 +738,18 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
           <div key={idx} style={{ fontSize: 12 }}>
             {p.name === "kg" ? (
               <>
-                <span style={{ opacity: 0.8 }}>Weight:</span> {Number(p.value).toFixed(3)} kg
+                <span style={{ opacity: 0.8 }}>Weight:</span>{" "}
+                {units.format(Number(p.value), { extraDigits: 1, plain: true })}
+              </>
+            ) : p.dataKey === "filtered" || p.dataKey === "rollingStd" ? (
+              <>
+                <span style={{ opacity: 0.8 }}>{p.name}:</span>{" "}
+                {units.format(Number(p.value), { extraDigits: 2, plain: true })}
+              </>
+            ) : p.dataKey === "derivative" ? (
+              <>
+                <span style={{ opacity: 0.8 }}>{p.name}:</span> {units.toPlot(Number(p.value)).toFixed(3)}{" "}
+                {units.plotUnit}/s
               </>
             ) : (
               <>
@@ -708,18 +759,21 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
           </div>
         ))}
         <div style={{ marginTop: 6, fontSize: 12 }}>
-          <span style={{ opacity: 0.8 }}>Group mode</span>: {modeText}
+          <span style={{ opacity: 0.8 }}>Group {estimator.shortLabel}</span>: {modeText}
         </div>
         <div style={{ fontSize: 11, color: "rgba(255,255,255,0.8)" }}>Group: {groupText}</div>
       </div>
     )
-  }, [])
+  }, [groupedRanges, estimator, units])
+
+  // Bins are in display units: 20 g, or 0.05 lb
+  const histogramBinSize = units.plotUnit === "kg" ? 0.02 : 0.05
 
   const histogramData = useMemo(() => {
     if (!visibleRows || visibleRows.length === 0) return []
 
-    const BIN_SIZE = 0.02 // 20 g chunks
-    const HALF_BIN = BIN_SIZE / 2 // tolerance: +/- 0.010 kg around bin center
+    const BIN_SIZE = histogramBinSize
+    const HALF_BIN = BIN_SIZE / 2
     const quantizeToBinCenter = (w: number) => {
       return Math.round(w / BIN_SIZE) * BIN_SIZE
     }
@@ -727,7 +781,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
     const bins = new Map<number, number>()
 
     for (const row of visibleRows) {
-      const center = quantizeToBinCenter(row.kg)
+      const center = quantizeToBinCenter(units.toPlot(row.kg))
       bins.set(center, (bins.get(center) || 0) + 1)
     }
 
@@ -741,7 +795,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
       .sort((a, b) => a.center - b.center)
 
     return histogramArray
-  }, [visibleRows])
+  }, [visibleRows, units, histogramBinSize])
 
   const CustomDot = useCallback(
     (props: any) => {
@@ -791,11 +845,18 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
         <div className="space-y-4">
           <div className="flex items-start justify-between gap-4">
             <div className="flex items-center gap-3">
+              {onSelectedChange && (
+                <Checkbox
+                  checked={selected}
+                  onCheckedChange={(checked) => onSelectedChange(checked === true)}
+                  aria-label="Select event"
+                />
+              )}
               <CardTitle className="font-sans text-lg font-semibold tracking-tight">{title}</CardTitle>
               <div className="flex items-center gap-2">
-                {timeOfDay === "Morning" ? (
+                {timeOfDay !== "evening" ? (
                   <svg
-                    className="h-3.5 w-3.5 text-amber-500"
+                    className={`h-3.5 w-3.5 ${timeOfDay === "morning" ? "text-amber-500" : "text-muted-foreground"}`}
                     fill="none"
                     viewBox="0 0 24 24"
                     stroke="currentColor"
@@ -813,8 +874,27 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                     <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z" />
                   </svg>
                 )}
-                <span className="text-xs text-muted-foreground">{timeOfDay}</span>
+                <span className="text-xs text-muted-foreground">{TIME_OF_DAY_LABELS[timeOfDay]}</span>
               </div>
+              {assignedProfile && (
+                <span
+                  className="inline-flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs"
+                  title={profilePinned ? "Assigned manually" : "Assigned automatically"}
+                >
+                  <span className="h-2 w-2 rounded-full" style={{ background: assignedProfile.color }} />
+                  {assignedProfile.name}
+                  {profilePinned && <span className="text-muted-foreground">•</span>}
+                </span>
+              )}
+              {results?.scale_id && (
+                <span
+                  className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 font-mono text-xs text-muted-foreground"
+                  title="Scale that produced the latest result"
+                >
+                  <Scale className="h-3 w-3" />
+                  {results.scale_id}
+                </span>
+              )}
             </div>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -851,6 +931,28 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                     {resultsCopied ? "Copied!" : "Copy Results JSON"}
                   </DropdownMenuItem>
                 )}
+                <DropdownMenuItem
+                  onClick={() => setShowComparison((v) => !v)}
+                  disabled={!rows || rows.length === 0}
+                >
+                  <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                    />
+                  </svg>
+                  {showComparison ? "Hide Local Algorithm" : "Compare Local Algorithm"}
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setShowProcessing((v) => !v)}
+                  disabled={!rows || rows.length === 0}
+                >
+                  <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 12h4l3-8 4 16 3-8h4" />
+                  </svg>
+                  {showProcessing ? "Hide Signal Processing" : "Signal Processing"}
+                </DropdownMenuItem>
                 {zoomDomain && (
                   <DropdownMenuItem onClick={handleResetZoom}>
                     <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -863,6 +965,73 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                     Reset Zoom
                   </DropdownMenuItem>
                 )}
+                {history.length > 0 && (
+                  <DropdownMenuItem onClick={() => setShowHistory((v) => !v)}>
+                    <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    {showHistory ? "Hide Version History" : `Version History (${history.length})`}
+                  </DropdownMenuItem>
+                )}
+                {onAssignProfile && profiles.length > 0 && (
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <svg
+                        className="h-4 w-4 mr-2"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+                        />
+                      </svg>
+                      Assign Profile
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent className="w-48">
+                      <DropdownMenuRadioGroup
+                        value={profilePinned ? (profileId ?? "none") : "auto"}
+                        onValueChange={(value) =>
+                          onAssignProfile(value === "auto" ? undefined : value === "none" ? null : value)
+                        }
+                      >
+                        <DropdownMenuRadioItem value="auto">Automatic</DropdownMenuRadioItem>
+                        {profiles.map((profile) => (
+                          <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+                            <div className="mr-2 h-2 w-2 rounded-full" style={{ background: profile.color }} />
+                            {profile.name}
+                          </DropdownMenuRadioItem>
+                        ))}
+                        <DropdownMenuRadioItem value="none">Unassigned</DropdownMenuRadioItem>
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                )}
+                {onRecordReference && results && (
+                  <DropdownMenuItem onClick={() => setReferenceInput(units.toPlot(referenceKg ?? 20).toFixed(3))}>
+                    <Scale className="h-4 w-4 mr-2" />
+                    {referenceKg !== null ? "Edit Reference Weight" : "Record as Reference Weight"}
+                  </DropdownMenuItem>
+                )}
+                {onRecalculate && (
+                  <DropdownMenuItem onClick={onRecalculate} disabled={recalculating || !canRecalculate}>
+                    <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                      />
+                    </svg>
+                    {recalculating
+                      ? "Recalculating..."
+                      : canRecalculate
+                        ? "Recalculate"
+                        : "Recalculate (sign in required)"}
+                  </DropdownMenuItem>
+                )}
                 {eventId && (
                   <>
                     <DropdownMenuSeparator />
@@ -892,20 +1061,53 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
             </DropdownMenu>
           </div>
 
-          {estimatedWeightKg != null && estimatedWeightLbs != null && (
+          {estimatedWeightKg != null && (
             <div className="flex items-center justify-between gap-4">
               <div className="flex flex-col gap-2">
                 <div className="flex items-center gap-2">
                   <div className="inline-flex items-center gap-1.5 rounded-full bg-emerald-50 px-3 py-1 border border-emerald-200">
                     <div className="h-1.5 w-1.5 rounded-full bg-emerald-500" />
-                    <span className="text-sm font-semibold text-emerald-700">{estimatedWeightKg.toFixed(1)} kg</span>
-                    <span className="text-xs text-emerald-600">({estimatedWeightLbs.toFixed(1)} lbs)</span>
+                    <span className="text-sm font-semibold text-emerald-700">
+                      {units.format(estimatedWeightKg, { digits: estimator.decimals })}
+                    </span>
+                    {units.unit !== "kg" && (
+                      <span className="text-xs text-emerald-600">
+                        ({estimatedWeightKg.toFixed(estimator.decimals)} kg)
+                      </span>
+                    )}
                   </div>
                   {estimatedModeCount > 1 && (
                     <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded-md">
-                      {estimatedModeCount}× mode
+                      {estimatedModeCount}× {estimator.shortLabel}
                     </span>
                   )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground">
+                        {estimator.label}
+                        <svg
+                          className="h-3 w-3 ml-1"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
+                          strokeWidth={2}
+                        >
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                        </svg>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="w-56">
+                      <DropdownMenuLabel>Estimator</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuRadioGroup value={estimatorId} onValueChange={setEstimatorId}>
+                        {listEstimators().map((e) => (
+                          <DropdownMenuRadioItem key={e.id} value={e.id}>
+                            {e.label}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
 
                 {results && (
@@ -913,10 +1115,27 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                     <div className="inline-flex items-center gap-1.5 rounded-full bg-blue-50 px-3 py-1 border border-blue-200">
                       <div className="h-1.5 w-1.5 rounded-full bg-blue-500" />
                       <span className="text-sm font-semibold text-blue-700">
-                        {results.raw_stable_weight_kg.toFixed(3)} kg
+                        {units.format(applyCalibration(results.raw_stable_weight_kg, calibration), { extraDigits: 1 })}
+                      </span>
+                      <span className="text-xs text-blue-600">
+                        ±{units.format(results.raw_uncertainty_kg, { extraDigits: 1, plain: true })}
                       </span>
-                      <span className="text-xs text-blue-600">±{results.raw_uncertainty_kg.toFixed(3)} kg</span>
                     </div>
+                    {calibration && (
+                      <span
+                        className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded-md"
+                        title={`Calibrated: ${calibration.gain.toFixed(5)} × raw ${
+                          calibration.offset_kg >= 0 ? "+" : "−"
+                        } ${units.format(Math.abs(calibration.offset_kg), { digits: 3, plain: true })}`}
+                      >
+                        raw {units.format(results.raw_stable_weight_kg, { extraDigits: 1 })}
+                      </span>
+                    )}
+                    {referenceKg !== null && (
+                      <span className="text-xs text-amber-700 bg-amber-50 px-2 py-1 rounded-md">
+                        Ref {units.format(referenceKg, { extraDigits: 1 })}
+                      </span>
+                    )}
                     <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded-md">
                       Q: {(results.raw_quality * 100).toFixed(0)}%
                     </span>
@@ -927,6 +1146,39 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
             </div>
           )}
 
+          {referenceInput !== null && results && onRecordReference && (
+            <form
+              className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm"
+              onSubmit={(e) => {
+                e.preventDefault()
+                const value = Number(referenceInput)
+                if (!Number.isFinite(value) || value <= 0) return
+                onRecordReference(units.fromPlot(value))
+                setReferenceInput(null)
+              }}
+            >
+              <span className="text-muted-foreground">Reference mass on scale</span>
+              <span className="font-mono text-xs">{results.scale_id}</span>
+              <input
+                className="h-8 w-28 rounded-md border bg-transparent px-2 text-sm"
+                type="number"
+                step="0.001"
+                min="0"
+                value={referenceInput}
+                onChange={(e) => setReferenceInput(e.target.value)}
+                aria-label={`Reference mass (${units.plotUnit})`}
+                autoFocus
+              />
+              <span className="text-muted-foreground">{units.plotUnit}</span>
+              <Button type="submit" size="sm">
+                Save
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setReferenceInput(null)}>
+                Cancel
+              </Button>
+            </form>
+          )}
+
           {/* Stats grid */}
           {stats && (
             <div className="flex items-center gap-3 text-sm flex-nowrap overflow-x-auto">
@@ -937,17 +1189,17 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
               <div className="h-4 w-px bg-border" />
               <div className="flex items-center gap-1.5 whitespace-nowrap">
                 <span className="text-muted-foreground">Min:</span>
-                <span className="font-medium">{stats.min} kg</span>
+                <span className="font-medium">{units.format(stats.min)}</span>
               </div>
               <div className="h-4 w-px bg-border" />
               <div className="flex items-center gap-1.5 whitespace-nowrap">
                 <span className="text-muted-foreground">Max:</span>
-                <span className="font-medium">{stats.max} kg</span>
+                <span className="font-medium">{units.format(stats.max)}</span>
               </div>
               <div className="h-4 w-px bg-border" />
               <div className="flex items-center gap-1.5 whitespace-nowrap">
                 <span className="text-muted-foreground">Avg:</span>
-                <span className="font-medium">{stats.avg} kg</span>
+                <span className="font-medium">{units.format(stats.avg)}</span>
               </div>
             </div>
           )}
@@ -964,7 +1216,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
             <ChartContainer
               config={{
                 kg: {
-                  label: "Weight (kg)",
+                  label: `Weight (${units.plotUnit})`,
                   color: "#3b82f6",
                 },
               }}
@@ -972,7 +1224,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
             >
               <ResponsiveContainer width="100%" height="100%">
                 <ComposedChart
-                  data={rows}
+                  data={chartRows}
                   margin={{ top: 5, right: 10, left: 20, bottom: 5 }}
                   onMouseDown={handleMouseDown}
                   onMouseMove={handleMouseMove}
@@ -1003,13 +1255,25 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                     tickFormatter={(value) => Number(value).toFixed(1)}
                   />
                   <YAxis
-                    label={{ value: "Weight (kg)", angle: -90, position: "insideLeft", dx: -10 }}
+                    label={{ value: `Weight (${units.plotUnit})`, angle: -90, position: "insideLeft", dx: -10 }}
                     className="text-xs"
                     domain={yDomain ?? ["dataMin - 1", "dataMax + 1"]}
                     type="number"
                     allowDataOverflow
-                    tickFormatter={(value) => Number(value).toFixed(3)}
+                    tickFormatter={(value) => units.toPlot(Number(value)).toFixed(3)}
                   />
+                  {showSignalAxis && (
+                    <YAxis
+                      yAxisId="signal"
+                      orientation="right"
+                      label={{ value: `${units.plotUnit}/s · ${units.plotUnit}`, angle: 90, position: "insideRight" }}
+                      className="text-xs"
+                      domain={[-signalLimit, signalLimit]}
+                      type="number"
+                      allowDataOverflow
+                      tickFormatter={(value) => units.toPlot(Number(value)).toFixed(2)}
+                    />
+                  )}
                   <Tooltip
                     content={<CustomTooltip />}
                     isAnimationActive={false}
@@ -1025,6 +1289,96 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                     activeDot={{ r: 6, stroke: "#3b82f6", fill: "#3b82f6" }}
                     isAnimationActive={false}
                   />
+                  {showProcessing && processing.filter !== "none" && (
+                    <Line
+                      type="monotone"
+                      dataKey="filtered"
+                      name="Filtered"
+                      stroke="#f97316"
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  )}
+                  {showSignalAxis && processing.showDerivative && (
+                    <>
+                      <Line
+                        yAxisId="signal"
+                        type="monotone"
+                        dataKey="derivative"
+                        name="Derivative"
+                        stroke="#a855f7"
+                        strokeWidth={1}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                      <ReferenceLine
+                        yAxisId="signal"
+                        y={processing.thresholds.maxSlopeKgPerS}
+                        stroke="#a855f7"
+                        strokeDasharray="4 4"
+                      />
+                      <ReferenceLine
+                        yAxisId="signal"
+                        y={-processing.thresholds.maxSlopeKgPerS}
+                        stroke="#a855f7"
+                        strokeDasharray="4 4"
+                      />
+                    </>
+                  )}
+                  {showSignalAxis && processing.showRollingStd && (
+                    <>
+                      <Line
+                        yAxisId="signal"
+                        type="monotone"
+                        dataKey="rollingStd"
+                        name="Rolling std"
+                        stroke="#ef4444"
+                        strokeWidth={1}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                      <ReferenceLine
+                        yAxisId="signal"
+                        y={processing.thresholds.maxStdKg}
+                        stroke="#ef4444"
+                        strokeDasharray="4 4"
+                      />
+                    </>
+                  )}
+                  {showProcessing &&
+                    processing.showStable &&
+                    stabilityRegions.map((region) => (
+                      <ReferenceArea
+                        key={region.startMs}
+                        x1={region.startMs}
+                        x2={region.endMs}
+                        strokeOpacity={0}
+                        fill="#10b981"
+                        fillOpacity={0.12}
+                      />
+                    ))}
+                  {tunedResult && (
+                    <ReferenceArea
+                      x1={tunedResult.window_start_s * 1000}
+                      x2={tunedResult.window_end_s * 1000}
+                      stroke="#10b981"
+                      strokeOpacity={0.8}
+                      fillOpacity={0}
+                      label={{ value: "tuned", position: "insideTopLeft", fill: "#10b981", fontSize: 10 }}
+                    />
+                  )}
+                  {showProcessing && results && (
+                    <ReferenceArea
+                      x1={results.window_start_s * 1000}
+                      x2={results.window_end_s * 1000}
+                      stroke="#3b82f6"
+                      strokeDasharray="4 4"
+                      strokeOpacity={0.8}
+                      fillOpacity={0}
+                      label={{ value: "stored", position: "insideTopRight", fill: "#3b82f6", fontSize: 10 }}
+                    />
+                  )}
                   <Brush
                     dataKey="t"
                     height={30}
@@ -1042,6 +1396,18 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                       fillOpacity={0.3}
                     />
                   )}
+                  {overlayWindows.map((w) => (
+                    <ReferenceArea
+                      key={w.id}
+                      x1={w.left}
+                      x2={w.right}
+                      stroke={w.color}
+                      strokeOpacity={0.6}
+                      fill={w.color}
+                      fillOpacity={0.1}
+                      label={{ value: w.version, position: "insideTopLeft", fill: w.color, fontSize: 10 }}
+                    />
+                  ))}
                   {hoverWindow && (
                     <ReferenceArea
                       x1={hoverWindow.left}
@@ -1059,7 +1425,9 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
             </ChartContainer>
 
             <div className="border-t pt-6">
-              <h3 className="text-sm font-semibold mb-3">Weight Distribution (0.020kg bins)</h3>
+              <h3 className="text-sm font-semibold mb-3">
+                Weight Distribution ({histogramBinSize.toFixed(3)} {units.plotUnit} bins)
+              </h3>
               <ChartContainer
                 config={{
                   count: {
@@ -1076,7 +1444,7 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                       dataKey="center"
                       className="text-xs"
                       tickFormatter={(value) => Number(value).toFixed(2)}
-                      label={{ value: "Weight (kg)", position: "insideBottom", offset: -5 }}
+                      label={{ value: `Weight (${units.plotUnit})`, position: "insideBottom", offset: -5 }}
                     />
                     <YAxis
                       className="text-xs"
@@ -1099,7 +1467,8 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                             }}
                           >
                             <div style={{ fontSize: 11, color: "rgba(255,255,255,0.8)", marginBottom: 4 }}>
-                              Bin: {data.start.toFixed(3)} - {data.end.toFixed(3)} kg (center {data.center.toFixed(3)})
+                              Bin: {data.start.toFixed(3)} - {data.end.toFixed(3)} {units.plotUnit} (center{" "}
+                              {data.center.toFixed(3)})
                             </div>
                             <div style={{ fontSize: 12 }}>
                               <span style={{ opacity: 0.8 }}>Count:</span> {data.count}
@@ -1114,6 +1483,35 @@ export function DataChart({ title, data, createdAt, fetchOptions, results, event
                 </ResponsiveContainer>
               </ChartContainer>
             </div>
+
+            {showHistory && history.length > 0 && (
+              <div className="border-t pt-6">
+                <ResultHistory
+                  history={history}
+                  overlayIds={overlayIds}
+                  colorFor={historyColor}
+                  onToggleOverlay={toggleOverlay}
+                />
+              </div>
+            )}
+
+            {showComparison && (
+              <div className="border-t pt-6">
+                <AlgorithmComparison stored={results} local={localResult} />
+              </div>
+            )}
+
+            {showProcessing && (
+              <div className="border-t pt-6">
+                <SignalProcessingPanel
+                  settings={processing}
+                  onChange={setProcessing}
+                  regionCount={stabilityRegions.length}
+                  tuned={tunedResult}
+                  stored={results}
+                />
+              </div>
+            )}
           </div>
         ) : (
           <div className="flex h-[360px] items-center justify-center text-muted-foreground">
@@ -0,0 +1,70 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { problemKey, type DataProblem } from "@/lib/domain"
+
+const COLLAPSED_COUNT = 5
+
+type DataProblemsProps = {
+  problems: DataProblem[]
+  onDismiss?: () => void
+}
+
+export function DataProblems({ problems, onDismiss }: DataProblemsProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (problems.length === 0) return null
+
+  const shown = expanded ? problems : problems.slice(0, COLLAPSED_COUNT)
+
+  return (
+    <Card className="border-amber-500">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 font-sans text-lg font-semibold tracking-tight">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            Data problems ({problems.length})
+          </CardTitle>
+          {onDismiss && (
+            <Button variant="ghost" size="sm" onClick={onDismiss}>
+              Dismiss
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          These rows failed validation and were left out of the charts.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th className="py-1.5 pr-3 text-left font-medium">Table</th>
+                <th className="py-1.5 pr-3 text-left font-medium">Row</th>
+                <th className="py-1.5 text-left font-medium">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((problem) => (
+                <tr key={problemKey(problem)} className="border-b last:border-0 align-top">
+                  <td className="py-1 pr-3 font-mono whitespace-nowrap">{problem.table}</td>
+                  <td className="py-1 pr-3 font-mono whitespace-nowrap">{problem.id ?? "—"}</td>
+                  <td className="py-1">{problem.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {problems.length > COLLAPSED_COUNT && (
+          <Button variant="ghost" size="sm" onClick={() => setExpanded((v) => !v)}>
+            {expanded ? "Show fewer" : `Show all ${problems.length}`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
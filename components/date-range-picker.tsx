@@ -0,0 +1,69 @@
+"use client"
+
+import { useState } from "react"
+import { CalendarIcon } from "lucide-react"
+import type { DateRange } from "react-day-picker"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { toDay } from "@/lib/view-state"
+
+type DateRangePickerProps = {
+  // YYYY-MM-DD, both inclusive
+  value: { from: string; to: string } | null
+  onChange: (range: { from: string; to: string }) => void
+  active?: boolean
+}
+
+const parseDay = (day: string) => new Date(`${day}T00:00:00`)
+
+const formatDay = (day: string) =>
+  parseDay(day).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })
+
+export function DateRangePicker({ value, onChange, active = false }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<DateRange | undefined>()
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (next) setDraft(value ? { from: parseDay(value.from), to: parseDay(value.to) } : undefined)
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant={active ? "default" : "outline"} size="sm">
+          <CalendarIcon className="h-4 w-4" />
+          {value ? `${formatDay(value.from)} – ${formatDay(value.to)}` : "Custom range"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={draft?.from}
+          selected={draft}
+          onSelect={setDraft}
+          disabled={{ after: new Date() }}
+        />
+        <div className="flex justify-end gap-2 border-t p-3">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={!draft?.from}
+            onClick={() => {
+              if (!draft?.from) return
+              onChange({ from: toDay(draft.from.getTime()), to: toDay((draft.to ?? draft.from).getTime()) })
+              setOpen(false)
+            }}
+          >
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
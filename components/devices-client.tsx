@@ -0,0 +1,257 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Spinner } from "@/components/ui/spinner"
+import { DataProblems } from "@/components/data-problems"
+import { CalibrationHistory } from "@/components/calibration-history"
+import { HealthThresholdsForm, ScaleHealthAlerts, ScaleHealthCharts } from "@/components/scale-health"
+import { useDataProblems } from "@/hooks/use-data-problems"
+import { useCalibrations } from "@/hooks/use-calibrations"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { noisyScales, type ScaleSummary } from "@/lib/scales"
+import { measurementsByEvent, type Calibration, type ReferenceMeasurement } from "@/lib/calibration"
+import { DEFAULT_HEALTH_THRESHOLDS, evaluateHealth, type ScaleHealthSeries } from "@/lib/scale-health"
+
+const formatDate = (value: string) => new Date(value).toLocaleString()
+
+const alertLabel = (count = 0) => (count === 0 ? "OK" : `${count} alert${count !== 1 ? "s" : ""}`)
+
+const formatCalibration = ({ gain, offset_kg, point_count }: Calibration) =>
+  `×${gain.toFixed(4)} ${offset_kg >= 0 ? "+" : "−"} ${Math.abs(offset_kg).toFixed(3)} kg (${point_count} ref)`
+
+export function DevicesClient() {
+  const [scales, setScales] = useState<ScaleSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { problems, reportProblems } = useDataProblems()
+  // Reference weigh-ins are fitted against their events' current results
+  const [referenceMeasurements, setReferenceMeasurements] = useState<Map<string, ReferenceMeasurement>>(new Map())
+  const { measuredPoints, calibrations, removeReference } = useCalibrations(referenceMeasurements)
+  const [health, setHealth] = useState<ScaleHealthSeries[] | null>(null)
+  const [healthError, setHealthError] = useState<string | null>(null)
+  const [healthScale, setHealthScale] = useState<string | null>(null)
+  const [thresholds, setThresholds] = useStoredState("autoscale.healthThresholds", DEFAULT_HEALTH_THRESHOLDS)
+
+  useEffect(() => {
+    async function run() {
+      try {
+        const response = await fetch("/api/scales")
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error?.message || "Failed to load scales")
+        setScales(result.scales)
+        reportProblems(result.problems)
+      } catch (err) {
+        console.error("[v0] Error fetching scales:", err)
+        setError(err instanceof Error ? err.message : "Failed to load scales")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    run()
+  }, [reportProblems])
+
+  useEffect(() => {
+    async function run() {
+      try {
+        const response = await fetch("/api/trend")
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error?.message || "Failed to load results")
+        setReferenceMeasurements(measurementsByEvent(result.points))
+      } catch (err) {
+        console.error("[v0] Error fetching results for calibration:", err)
+      }
+    }
+
+    run()
+  }, [])
+
+  // Health needs every recent event's samples, so it loads after the registry
+  useEffect(() => {
+    async function run() {
+      try {
+        const response = await fetch("/api/scales/health")
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error?.message || "Failed to load scale health")
+        setHealth(result.scales)
+        reportProblems(result.problems)
+      } catch (err) {
+        console.error("[v0] Error fetching scale health:", err)
+        setHealthError(err instanceof Error ? err.message : "Failed to load scale health")
+      }
+    }
+
+    run()
+  }, [reportProblems])
+
+  const noisy = useMemo(() => noisyScales(scales), [scales])
+
+  // Thresholds saved before a field existed fall back to its default
+  const activeThresholds = useMemo(() => ({ ...DEFAULT_HEALTH_THRESHOLDS, ...thresholds }), [thresholds])
+  const alerts = useMemo(
+    () => (health ?? []).flatMap((series) => evaluateHealth(series, activeThresholds)),
+    [health, activeThresholds],
+  )
+  const alertCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const alert of alerts) counts.set(alert.scale_id, (counts.get(alert.scale_id) ?? 0) + 1)
+    return counts
+  }, [alerts])
+  const selectedHealth = health?.find((series) => series.scale_id === (healthScale ?? alerts[0]?.scale_id))
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <Spinner className="h-8 w-8" />
+          <p className="text-sm text-muted-foreground">Loading scales...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Card className="w-full max-w-md border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">Error Loading Scales</CardTitle>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-6">
+          <Link href="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Dashboard
+          </Link>
+          <h1 className="mt-2 font-sans text-3xl font-bold tracking-tight">Scales</h1>
+          <p className="mt-2 text-muted-foreground">
+            {scales.length} scale{scales.length !== 1 ? "s" : ""} seen in the latest result of each event
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-8">
+        <ScaleHealthAlerts alerts={alerts} />
+        <DataProblems problems={problems} />
+
+        {scales.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>No Scales Yet</CardTitle>
+              <CardDescription>
+                Scales appear here once the worker has stored a result for one of their events.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="overflow-x-auto pt-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="py-2 pr-3 text-left font-medium">Scale</th>
+                    <th className="py-2 pr-3 text-right font-medium">Events</th>
+                    <th className="py-2 pr-3 text-left font-medium">First event</th>
+                    <th className="py-2 pr-3 text-left font-medium">Last event</th>
+                    <th className="py-2 pr-3 text-right font-medium">Noise floor</th>
+                    <th className="py-2 pr-3 text-right font-medium">Avg quality</th>
+                    <th className="py-2 pr-3 text-right font-medium">Calibration</th>
+                    <th className="py-2 text-right font-medium">Health</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scales.map((scale) => (
+                    <tr
+                      key={scale.scale_id}
+                      className={`border-b last:border-0 ${
+                        noisy.has(scale.scale_id) ? "bg-amber-50 text-amber-800" : ""
+                      }`}
+                    >
+                      <td className="py-1.5 pr-3 font-mono text-xs">
+                        <Link href={`/?scale=${encodeURIComponent(scale.scale_id)}`} className="hover:underline">
+                          {scale.scale_id}
+                        </Link>
+                        {noisy.has(scale.scale_id) && <span className="ml-2 font-sans">noisy</span>}
+                      </td>
+                      <td className="py-1.5 pr-3 text-right font-mono">{scale.event_count}</td>
+                      <td className="py-1.5 pr-3 whitespace-nowrap">{formatDate(scale.first_event_at)}</td>
+                      <td className="py-1.5 pr-3 whitespace-nowrap">{formatDate(scale.last_event_at)}</td>
+                      <td className="py-1.5 pr-3 text-right font-mono">{scale.median_std_kg.toFixed(4)} kg</td>
+                      <td className="py-1.5 pr-3 text-right font-mono">
+                        {(scale.mean_quality * 100).toFixed(1)}%
+                      </td>
+                      <td className="py-1.5 pr-3 text-right font-mono text-xs whitespace-nowrap">
+                        {calibrations.has(scale.scale_id) ? (
+                          formatCalibration(calibrations.get(scale.scale_id)!)
+                        ) : (
+                          <span className="font-sans text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="py-1.5 text-right whitespace-nowrap">
+                        {health === null ? (
+                          <span className="text-muted-foreground">{healthError ? "—" : "…"}</span>
+                        ) : (
+                          <button
+                            type="button"
+                            className={`text-xs hover:underline ${
+                              alertCounts.has(scale.scale_id) ? "font-medium text-destructive" : "text-emerald-700"
+                            }`}
+                            onClick={() => setHealthScale(scale.scale_id)}
+                          >
+                            {alertLabel(alertCounts.get(scale.scale_id))}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-muted-foreground">
+                Noise floor is the median mean_std_kg over each scale&apos;s events. Scales more than twice the
+                fleet median are highlighted. Calibrations are fitted from weigh-ins recorded as reference
+                weights on the dashboard.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {scales.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="font-sans text-lg font-semibold tracking-tight">Health thresholds</CardTitle>
+              <CardDescription>
+                Each metric is the median over a scale&apos;s most recent events; zero offset is read from the empty
+                platform before and after each weigh-in. Select a scale&apos;s health to chart it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <HealthThresholdsForm
+                thresholds={activeThresholds}
+                onChange={setThresholds}
+                onReset={() => setThresholds(DEFAULT_HEALTH_THRESHOLDS)}
+              />
+              {healthError && <p className="mt-3 text-sm text-destructive">{healthError}</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedHealth && <ScaleHealthCharts series={selectedHealth} thresholds={activeThresholds} />}
+
+        {[...calibrations.keys()].map((scaleId) => (
+          <CalibrationHistory key={scaleId} scaleId={scaleId} points={measuredPoints} onRemove={removeReference} />
+        ))}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useUnits } from "@/components/units-provider"
+import { EXPORT_FORMATS, type ExportFile, type ExportFormat } from "@/lib/export"
+import { downloadFile } from "@/lib/download"
+import type { ExportFilter } from "@/lib/server/weight-data"
+
+type ExportMenuProps = {
+  filter: ExportFilter
+  // What the filter covers, e.g. "Last 30 days · Alice"
+  description: string
+}
+
+export function ExportMenu({ filter, description }: ExportMenuProps) {
+  const { unit } = useUnits()
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [includeSamples, setIncludeSamples] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runExport = async (target: ExportFile | "zip") => {
+    setExporting(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ format, unit })
+      if (target === "zip") {
+        params.set("bundle", "zip")
+        if (includeSamples) params.set("samples", "1")
+      } else {
+        params.set("file", target)
+      }
+      if (filter.start !== undefined) params.set("from", new Date(filter.start).toISOString())
+      if (filter.end !== undefined) params.set("to", new Date(filter.end).toISOString())
+      if (filter.scaleId) params.set("scale", filter.scaleId)
+
+      // A profile's events are sent by id, since profiles only exist in this browser
+      const response = await fetch(`/api/export?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: filter.eventIds ? JSON.stringify({ event_ids: filter.eventIds }) : "",
+      })
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error?.message || "Export failed")
+      }
+
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "export"
+      downloadFile(filename, await response.blob())
+    } catch (err) {
+      console.error("[v0] Error exporting data:", err)
+      setError(err instanceof Error ? err.message : "Export failed")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="bg-transparent" disabled={exporting}>
+          <Download className={`mr-2 h-4 w-4 ${exporting ? "animate-pulse" : ""}`} />
+          {exporting ? "Exporting..." : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel className="font-normal text-muted-foreground">{description}</DropdownMenuLabel>
+        {error && <DropdownMenuLabel className="font-normal text-destructive">{error}</DropdownMenuLabel>}
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+          {EXPORT_FORMATS.map((option) => (
+            <DropdownMenuRadioItem key={option.format} value={option.format} onSelect={(e) => e.preventDefault()}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => runExport("events")}>Events with latest results</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => runExport("samples")}>Samples (long format)</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={includeSamples}
+          onCheckedChange={(checked) => setIncludeSamples(checked === true)}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Include samples in bundle
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuItem onClick={() => runExport("zip")}>Zip bundle</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,198 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Target } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { useUnits } from "@/components/units-provider"
+import { currentSmoothedWeight, goalProgress, type Goal } from "@/lib/goals"
+import type { TrendSample } from "@/lib/trend-smoothing"
+
+type GoalPanelProps = {
+  goal: Goal | undefined
+  points: TrendSample[]
+  // Whose goal this is, for the title
+  label: string
+  onSave: (goal: Goal) => void
+  onClear: () => void
+}
+
+const inputClass = "h-8 rounded-md border bg-transparent px-2 text-sm"
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+
+export function GoalPanel({ goal, points, label, onSave, onClear }: GoalPanelProps) {
+  const units = useUnits()
+  const [editing, setEditing] = useState(false)
+  const [targetInput, setTargetInput] = useState("")
+  const [targetDate, setTargetDate] = useState("")
+
+  const progress = useMemo(() => (goal ? goalProgress(goal, points) : null), [goal, points])
+
+  const signedRate = (kgPerWeek: number) => `${units.format(kgPerWeek, { signed: true })}/week`
+  const targetText = (kg: number) => String(Number(units.toPlot(kg).toFixed(2)))
+
+  const startEditing = () => {
+    setTargetInput(goal ? targetText(goal.targetKg) : "")
+    setTargetDate(goal?.targetDate ?? "")
+    setEditing(true)
+  }
+
+  const save = () => {
+    // An untouched target keeps its exact kg value rather than a unit round trip
+    const kg = goal && targetInput === targetText(goal.targetKg) ? goal.targetKg : units.fromPlot(Number(targetInput))
+    const startKg = currentSmoothedWeight(points)
+    if (!Number.isFinite(kg) || kg <= 0 || !targetDate || startKg === null) return
+    // Changing only the date keeps the original starting point
+    const keepStart = goal && goal.targetKg === kg
+    onSave({
+      targetKg: kg,
+      targetDate,
+      startKg: keepStart ? goal.startKg : startKg,
+      setAt: keepStart ? goal.setAt : new Date().toISOString(),
+    })
+    setEditing(false)
+  }
+
+  if (editing || !goal) {
+    return (
+      <Card>
+        <CardContent className="flex flex-wrap items-center gap-2 py-4 text-sm">
+          <Target className="h-4 w-4 text-muted-foreground" />
+          {editing ? (
+            <form
+              className="flex flex-wrap items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                save()
+              }}
+            >
+              <span className="text-muted-foreground">Goal for {label}:</span>
+              <input
+                className={`${inputClass} w-24`}
+                type="number"
+                step="0.1"
+                min="0"
+                placeholder={units.plotUnit}
+                value={targetInput}
+                onChange={(e) => setTargetInput(e.target.value)}
+                aria-label={`Target weight (${units.plotUnit})`}
+                autoFocus
+              />
+              <span className="text-muted-foreground">{units.plotUnit} by</span>
+              <input
+                className={inputClass}
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                aria-label="Target date"
+              />
+              <Button type="submit" size="sm" disabled={!targetInput || !targetDate}>
+                Save
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+            </form>
+          ) : (
+            <>
+              <span className="text-muted-foreground">No goal set for {label}.</span>
+              <Button size="sm" variant="outline" className="bg-transparent" onClick={startEditing}>
+                Set goal
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const status = progress?.reached
+    ? { text: "Goal reached", className: "border-emerald-200 bg-emerald-50 text-emerald-700" }
+    : progress?.onTrack === true
+      ? { text: "On track", className: "border-emerald-200 bg-emerald-50 text-emerald-700" }
+      : progress?.onTrack === false
+        ? { text: "Behind pace", className: "border-amber-200 bg-amber-50 text-amber-700" }
+        : { text: "Not enough data", className: "border-border bg-muted text-muted-foreground" }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 font-sans text-lg font-semibold tracking-tight">
+              <Target className="h-4 w-4" />
+              Goal: {units.format(goal.targetKg, { digits: 1 })} by{" "}
+              {formatDate(new Date(`${goal.targetDate}T00:00:00`).getTime())}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {label} · started at {units.format(goal.startKg, { digits: 1 })} on{" "}
+              {formatDate(new Date(goal.setAt).getTime())}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className={`rounded-full border px-3 py-1 text-xs font-medium ${status.className}`}>
+              {status.text}
+            </span>
+            <Button variant="ghost" size="sm" onClick={startEditing}>
+              Edit
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              Remove
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {progress && (
+        <CardContent className="space-y-3">
+          <div className="flex items-center gap-3">
+            <Progress value={progress.progress * 100} className="flex-1" />
+            <span className="w-12 text-right text-sm font-medium tabular-nums">
+              {(progress.progress * 100).toFixed(0)}%
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+            <div>
+              <span className="text-muted-foreground">Current (smoothed): </span>
+              <span className="font-medium">{units.format(progress.currentKg)}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Remaining: </span>
+              <span className="font-medium">{units.format(Math.abs(progress.remainingKg))}</span>
+            </div>
+            {progress.kgPerWeek !== null && (
+              <div>
+                <span className="text-muted-foreground">Recent pace: </span>
+                <span className="font-medium">{signedRate(progress.kgPerWeek)}</span>
+              </div>
+            )}
+            {progress.requiredKgPerWeek !== null && (
+              <div>
+                <span className="text-muted-foreground">Needed: </span>
+                <span className="font-medium">{signedRate(progress.requiredKgPerWeek)}</span>
+              </div>
+            )}
+            {!progress.reached && (
+              <div>
+                <span className="text-muted-foreground">Projected arrival: </span>
+                {progress.projectedAt !== null && progress.projectedRange ? (
+                  <span className="font-medium">
+                    {formatDate(progress.projectedAt)}{" "}
+                    <span className="font-normal text-muted-foreground">
+                      ({formatDate(progress.projectedRange.earliest)} –{" "}
+                      {progress.projectedRange.latest !== null ? formatDate(progress.projectedRange.latest) : "open"})
+                    </span>
+                  </span>
+                ) : (
+                  <span className="font-medium">not at the current pace</span>
+                )}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,347 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, LogIn, Upload } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { useUnits } from "@/components/units-provider"
+import { useSession } from "@/components/session-provider"
+import {
+  IMPORT_FORMATS,
+  MAX_IMPORT_ROWS,
+  detectFormat,
+  guessMapping,
+  mapRows,
+  readImportTable,
+  type ColumnMapping,
+  type ImportFormat,
+  type ImportTable,
+} from "@/lib/importers"
+import { UNIT_OPTIONS, type WeightUnit } from "@/lib/units"
+
+const PREVIEW_ROWS = 100
+
+const inputClass = "h-8 rounded-md border bg-transparent px-2 text-sm"
+
+type LoadedFile = { name: string; text: string }
+
+function ColumnSelect({
+  label,
+  value,
+  headers,
+  onChange,
+  optional = false,
+}: {
+  label: string
+  value: number | null
+  headers: string[]
+  onChange: (value: number | null) => void
+  optional?: boolean
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <select
+        className={inputClass}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+      >
+        {optional && <option value="">None</option>}
+        {headers.map((header, i) => (
+          <option key={i} value={i}>
+            {header || `Column ${i + 1}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export function ImportClient() {
+  const units = useUnits()
+  const { user } = useSession()
+  const [file, setFile] = useState<LoadedFile | null>(null)
+  const [format, setFormat] = useState<ImportFormat>("csv")
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [readError, setReadError] = useState<string | null>(null)
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const load = (loaded: LoadedFile, nextFormat: ImportFormat) => {
+    setFormat(nextFormat)
+    setMessage(null)
+    try {
+      const nextTable = readImportTable(loaded.text, nextFormat)
+      setTable(nextTable)
+      setMapping(guessMapping(nextTable, units.unit))
+      setReadError(nextTable.rows.length === 0 ? "No weigh-ins found in this file" : null)
+    } catch (err) {
+      setTable(null)
+      setMapping(null)
+      setReadError(err instanceof Error ? err.message : "Could not read this file")
+    }
+  }
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return
+    const loaded = { name: selected.name, text: await selected.text() }
+    setFile(loaded)
+    load(loaded, detectFormat(loaded.name, loaded.text))
+  }
+
+  const rows = useMemo(() => (table && mapping ? mapRows(table, mapping) : []), [table, mapping])
+  const valid = rows.filter((row) => row.error === null)
+  const invalidCount = rows.length - valid.length
+  const preview = (errorsOnly ? rows.filter((row) => row.error !== null) : rows).slice(0, PREVIEW_ROWS)
+  const cellsByLine = useMemo(() => new Map(table?.rows.map((row) => [row.line, row.cells])), [table])
+
+  const handleImport = async () => {
+    setImporting(true)
+    setProgress(0)
+    setMessage(null)
+    let inserted = 0
+    let skipped = 0
+    try {
+      for (let i = 0; i < valid.length; i += MAX_IMPORT_ROWS) {
+        const batch = valid.slice(i, i + MAX_IMPORT_ROWS).map((row) => ({
+          started_at: row.started_at,
+          weight_kg: row.weight_kg,
+        }))
+        const response = await fetch("/api/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ source: format, rows: batch }),
+        })
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error?.message || "Import failed")
+        inserted += result.inserted
+        skipped += result.skipped
+        setProgress(((i + batch.length) / valid.length) * 100)
+      }
+      setMessage({
+        type: "success",
+        text: `Imported ${inserted} weigh-in${inserted !== 1 ? "s" : ""}${
+          skipped > 0 ? `, skipped ${skipped} already imported` : ""
+        }.`,
+      })
+    } catch (err) {
+      console.error("[v0] Error importing weigh-ins:", err)
+      const done = inserted > 0 ? ` after importing ${inserted}` : ""
+      setMessage({ type: "error", text: `${err instanceof Error ? err.message : "Import failed"}${done}` })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const updateMapping = (changes: Partial<ColumnMapping>) =>
+    setMapping((prev) => (prev ? { ...prev, ...changes } : prev))
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-6">
+          <Link href="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Dashboard
+          </Link>
+          <h1 className="mt-2 font-sans text-3xl font-bold tracking-tight">Import weigh-ins</h1>
+          <p className="mt-2 text-muted-foreground">
+            Bring in history from other scales and apps. Imported weigh-ins have a weight but no samples, and are
+            marked as imported in the trend.
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>File</CardTitle>
+            <CardDescription>
+              A CSV with a date and a weight column, Withings weight.csv, Apple Health export.xml, or a Garmin
+              Connect or Fitbit weight export.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center gap-4">
+            <input
+              type="file"
+              accept=".csv,.txt,.xml,.json"
+              className="text-sm"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              aria-label="File to import"
+            />
+            {file && (
+              <label className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Format</span>
+                <select
+                  className={inputClass}
+                  value={format}
+                  onChange={(e) => load(file, e.target.value as ImportFormat)}
+                >
+                  {IMPORT_FORMATS.map((option) => (
+                    <option key={option.format} value={option.format}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {readError && <p className="text-sm text-destructive">{readError}</p>}
+          </CardContent>
+        </Card>
+
+        {table && mapping && table.rows.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Columns</CardTitle>
+              <CardDescription>
+                Weights that include a unit, such as &quot;160 lb&quot;, keep it; the unit here applies to bare
+                numbers. Times without a time zone are read as local time.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap items-center gap-4">
+              <ColumnSelect
+                label="Date"
+                value={mapping.dateColumn}
+                headers={table.headers}
+                onChange={(dateColumn) => updateMapping({ dateColumn: dateColumn ?? 0 })}
+              />
+              <ColumnSelect
+                label="Time"
+                value={mapping.timeColumn}
+                headers={table.headers}
+                onChange={(timeColumn) => updateMapping({ timeColumn })}
+                optional
+              />
+              <ColumnSelect
+                label="Weight"
+                value={mapping.weightColumn}
+                headers={table.headers}
+                onChange={(weightColumn) => updateMapping({ weightColumn: weightColumn ?? 0 })}
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Unit</span>
+                <select
+                  className={inputClass}
+                  value={mapping.unit}
+                  onChange={(e) => updateMapping({ unit: e.target.value as WeightUnit })}
+                >
+                  {UNIT_OPTIONS.map((option) => (
+                    <option key={option.unit} value={option.unit}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={mapping.dayFirst}
+                  onCheckedChange={(checked) => updateMapping({ dayFirst: checked === true })}
+                />
+                <span className="text-muted-foreground">Day before month (03/04 is 3 April)</span>
+              </label>
+            </CardContent>
+          </Card>
+        )}
+
+        {rows.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle>Preview</CardTitle>
+                  <CardDescription>
+                    {valid.length} of {rows.length} rows ready to import
+                    {invalidCount > 0 && `, ${invalidCount} with errors will be left out`}
+                  </CardDescription>
+                </div>
+                {user ? (
+                  <Button onClick={handleImport} disabled={importing || valid.length === 0}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    {importing ? "Importing..." : `Import ${valid.length} weigh-in${valid.length !== 1 ? "s" : ""}`}
+                  </Button>
+                ) : (
+                  <Button asChild variant="outline" className="bg-transparent">
+                    <Link href="/sign-in?next=/import">
+                      <LogIn className="mr-2 h-4 w-4" />
+                      Sign in to import
+                    </Link>
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {importing && <Progress value={progress} />}
+              {message && (
+                <Alert className={message.type === "error" ? "border-destructive" : "border-green-500"}>
+                  <AlertTitle>{message.type === "success" ? "Import finished" : "Import failed"}</AlertTitle>
+                  <AlertDescription>
+                    {message.text}{" "}
+                    {message.type === "success" && (
+                      <Link href="/" className="underline">
+                        View the trend
+                      </Link>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {invalidCount > 0 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={errorsOnly} onCheckedChange={(checked) => setErrorsOnly(checked === true)} />
+                  <span className="text-muted-foreground">Only rows with errors</span>
+                </label>
+              )}
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-muted-foreground">
+                      <th className="py-2 pr-3 text-right font-medium">Line</th>
+                      <th className="py-2 pr-3 text-left font-medium">Date in file</th>
+                      <th className="py-2 pr-3 text-left font-medium">Weight in file</th>
+                      <th className="py-2 pr-3 text-left font-medium">Time</th>
+                      <th className="py-2 pr-3 text-right font-medium">Weight</th>
+                      <th className="py-2 text-left font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((row) => {
+                      const cells = cellsByLine.get(row.line) ?? []
+                      return (
+                        <tr key={row.line} className="border-b last:border-0">
+                          <td className="py-1.5 pr-3 text-right font-mono text-muted-foreground">{row.line}</td>
+                          <td className="py-1.5 pr-3 font-mono">
+                            {cells[mapping?.dateColumn ?? 0]}
+                            {mapping?.timeColumn != null && ` ${cells[mapping.timeColumn] ?? ""}`}
+                          </td>
+                          <td className="py-1.5 pr-3 font-mono">{cells[mapping?.weightColumn ?? 0]}</td>
+                          <td className="py-1.5 pr-3 whitespace-nowrap">
+                            {row.started_at ? new Date(row.started_at).toLocaleString() : "—"}
+                          </td>
+                          <td className="py-1.5 pr-3 text-right font-mono">
+                            {row.weight_kg !== null ? units.format(row.weight_kg) : "—"}
+                          </td>
+                          <td className={`py-1.5 ${row.error ? "text-destructive" : "text-emerald-700"}`}>
+                            {row.error ?? "OK"}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {(errorsOnly ? invalidCount : rows.length) > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS} rows.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { type ComponentProps, useEffect, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Spinner } from "@/components/ui/spinner"
+import { DataChart } from "@/components/data-chart"
+import type { EventDetail } from "@/lib/server/weight-data"
+import type { DataProblem } from "@/lib/domain"
+
+type LazyDataChartProps = Omit<ComponentProps<typeof DataChart>, "data" | "history" | "fetchOptions"> & {
+  eventId: string
+  onProblems?: (problems: DataProblem[]) => void
+}
+
+// Start loading a little before the card scrolls into view
+const ROOT_MARGIN = "400px 0px"
+
+/**
+ * DataChart whose raw samples and result history are fetched from
+ * /api/events/:id the first time the card approaches the viewport.
+ */
+export function LazyDataChart({ eventId, onProblems, ...props }: LazyDataChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [visible, setVisible] = useState(false)
+  const [detail, setDetail] = useState<EventDetail | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const node = containerRef.current
+    if (!node || visible) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) setVisible(true)
+      },
+      { rootMargin: ROOT_MARGIN },
+    )
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [visible])
+
+  useEffect(() => {
+    if (!visible) return
+    let cancelled = false
+
+    async function run() {
+      try {
+        const response = await fetch(`/api/events/${encodeURIComponent(eventId)}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error?.message || "Failed to load samples")
+        if (cancelled) return
+        setDetail(result.event)
+        onProblems?.(result.event.problems)
+      } catch (err) {
+        console.error("[v0] Error loading event samples:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load samples")
+      }
+    }
+
+    run()
+    return () => {
+      cancelled = true
+    }
+  }, [visible, eventId])
+
+  if (detail) {
+    return <DataChart {...props} eventId={eventId} data={detail.samples} history={detail.history} />
+  }
+
+  return (
+    <div ref={containerRef}>
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="font-sans text-lg font-semibold tracking-tight">{props.title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex h-[360px] items-center justify-center gap-2 text-muted-foreground">
+            {error ? (
+              <span className="text-destructive">{error}</span>
+            ) : (
+              <>
+                {visible && <Spinner className="h-4 w-4" />}
+                Loading samples…
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import type { RealtimeStatus } from "@/lib/realtime"
+
+const STATUS_STYLES: Record<RealtimeStatus, { label: string; dot: string; pill: string; title: string }> = {
+  live: {
+    label: "Live",
+    dot: "bg-emerald-500 animate-pulse",
+    pill: "border-emerald-200 bg-emerald-50 text-emerald-700",
+    title: "New weigh-ins and results appear automatically",
+  },
+  connecting: {
+    label: "Connecting",
+    dot: "bg-amber-500",
+    pill: "border-amber-200 bg-amber-50 text-amber-700",
+    title: "Connecting to realtime updates",
+  },
+  offline: {
+    label: "Offline",
+    dot: "bg-muted-foreground",
+    pill: "border-border bg-muted text-muted-foreground",
+    title: "Realtime updates unavailable; reload to see new data",
+  },
+}
+
+export function LiveIndicator({ status }: { status: RealtimeStatus }) {
+  const style = STATUS_STYLES[status]
+  return (
+    <div
+      className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs font-medium ${style.pill}`}
+      title={style.title}
+      role="status"
+    >
+      <div className={`h-1.5 w-1.5 rounded-full ${style.dot}`} />
+      {style.label}
+    </div>
+  )
+}
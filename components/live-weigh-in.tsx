@@ -0,0 +1,264 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { CartesianGrid, Line, LineChart, ReferenceArea, ResponsiveContainer, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { useUnits } from "@/components/units-provider"
+import { DEFAULT_STABLE_WEIGHT_OPTIONS, liveStability } from "@/lib/stable-weight"
+import type { DataPoint } from "@/lib/domain"
+import { createBroadcastSampleSource, createSimulatedSampleSource, type SampleSource } from "@/lib/sample-source"
+import { createBrowserClient } from "@supabase/ssr"
+
+type LiveWeighInProps = {
+  source: SampleSource
+  // Width of the auto-scrolling x-axis
+  visibleSeconds?: number
+  onClose?: () => void
+}
+
+type StreamStatus = "streaming" | "ended" | "error"
+
+const STATE_STYLES = {
+  waiting: { label: "Waiting for weight", className: "border-border bg-muted text-muted-foreground" },
+  settling: { label: "Settling", className: "border-amber-200 bg-amber-50 text-amber-700" },
+  stable: { label: "Stable", className: "border-emerald-200 bg-emerald-50 text-emerald-700" },
+}
+
+export function LiveWeighIn({ source, visibleSeconds = 10, onClose }: LiveWeighInProps) {
+  const units = useUnits()
+  const [samples, setSamples] = useState<DataPoint[]>([])
+  const [status, setStatus] = useState<StreamStatus>("streaming")
+  const [error, setError] = useState<string | null>(null)
+  const [run, setRun] = useState(0)
+  const buffer = useRef<DataPoint[]>([])
+
+  useEffect(() => {
+    buffer.current = []
+    setSamples([])
+    setStatus("streaming")
+    setError(null)
+
+    // Samples can arrive faster than the screen refreshes, so flush them once per frame
+    let frame: number | null = null
+    const flush = () => {
+      frame = null
+      setSamples(buffer.current.slice())
+    }
+
+    const unsubscribe = source.subscribe({
+      onSample: (incoming) => {
+        buffer.current.push(...incoming)
+        frame ??= requestAnimationFrame(flush)
+      },
+      onEnd: () => setStatus("ended"),
+      onError: (message) => {
+        setError(message)
+        setStatus("error")
+      },
+    })
+
+    return () => {
+      unsubscribe()
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [source, run])
+
+  const stability = useMemo(() => liveStability(samples), [samples])
+
+  const origin = samples[0]?.t ?? 0
+  const last = samples[samples.length - 1]?.t ?? 0
+  const xDomain: [number, number] = [
+    Math.max(0, (last - origin) / 1000 - visibleSeconds),
+    Math.max(visibleSeconds, (last - origin) / 1000),
+  ]
+
+  const chartData = useMemo(
+    () => samples.map((s) => ({ s: (s.t - origin) / 1000, value: units.toPlot(s.kg) })),
+    [samples, origin, units],
+  )
+
+  const style = STATE_STYLES[stability.state]
+  const { maxSlopeKgPerS, maxStdKg } = DEFAULT_STABLE_WEIGHT_OPTIONS
+
+  const announcement =
+    stability.state === "stable" && stability.provisionalKg !== null
+      ? `Stable, provisional weight ${units.format(stability.provisionalKg)}`
+      : style.label
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="font-sans text-lg font-semibold tracking-tight">Live weigh-in</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {source.label} · {samples.length} samples
+              {status === "ended" && " · weigh-in finished"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {status !== "streaming" && (
+              <Button variant="outline" size="sm" className="bg-transparent" onClick={() => setRun((r) => r + 1)}>
+                Restart
+              </Button>
+            )}
+            {onClose && (
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                Close
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div
+            className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm font-medium ${
+              style.className
+            }`}
+          >
+            <div
+              className={`h-2 w-2 rounded-full bg-current ${stability.state === "settling" ? "animate-pulse" : ""}`}
+            />
+            {style.label}
+          </div>
+          <div className="text-2xl font-semibold tabular-nums">
+            {stability.provisionalKg !== null
+              ? units.format(stability.provisionalKg)
+              : samples.length > 0
+                ? units.format(samples[samples.length - 1].kg)
+                : "—"}
+            {stability.provisionalUncertaintyKg !== null && (
+              <span className="ml-1 text-sm font-normal text-muted-foreground">
+                ± {units.format(stability.provisionalUncertaintyKg, { extraDigits: 1, plain: true })} (provisional)
+              </span>
+            )}
+          </div>
+          <div className="flex gap-4 text-xs text-muted-foreground">
+            <span>
+              slope{" "}
+              <span
+                className={`font-mono ${
+                  stability.slopeKgPerS !== null && Math.abs(stability.slopeKgPerS) > maxSlopeKgPerS
+                    ? "text-amber-700"
+                    : ""
+                }`}
+              >
+                {stability.slopeKgPerS?.toFixed(3) ?? "—"}
+              </span>{" "}
+              kg/s (≤ {maxSlopeKgPerS})
+            </span>
+            <span>
+              std{" "}
+              <span
+                className={`font-mono ${
+                  stability.stdKg !== null && stability.stdKg > maxStdKg ? "text-amber-700" : ""
+                }`}
+              >
+                {stability.stdKg?.toFixed(3) ?? "—"}
+              </span>{" "}
+              kg (≤ {maxStdKg})
+            </span>
+            {stability.stableForS > 0 && <span>stable for {stability.stableForS.toFixed(1)} s</span>}
+          </div>
+          <p className="sr-only" aria-live="polite">
+            {announcement}
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <ResponsiveContainer width="100%" height={280}>
+          <LineChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis
+              dataKey="s"
+              type="number"
+              domain={xDomain}
+              allowDataOverflow
+              className="text-xs"
+              tickFormatter={(v) => `${Number(v).toFixed(0)}s`}
+            />
+            <YAxis className="text-xs" domain={["auto", "auto"]} tickFormatter={(v) => Number(v).toFixed(1)} />
+            {stability.stableSinceMs !== null && (
+              <ReferenceArea
+                x1={(stability.stableSinceMs - origin) / 1000}
+                x2={(last - origin) / 1000}
+                fill={stability.state === "stable" ? "#10b981" : "#f59e0b"}
+                fillOpacity={0.12}
+              />
+            )}
+            <Line
+              type="monotone"
+              dataKey="value"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  )
+}
+
+const inputClass = "h-8 rounded-md border bg-transparent px-2 text-sm"
+
+// Picks a sample source for LiveWeighIn: the local simulator or a scale's broadcast channel
+export function LiveWeighInPanel({ onClose }: { onClose: () => void }) {
+  const [source, setSource] = useState<SampleSource | null>(null)
+  const [scaleId, setScaleId] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const connectScale = () => {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    if (!supabaseUrl || !supabaseKey) {
+      setError("Supabase env vars are missing (NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY).")
+      return
+    }
+    setError(null)
+    setSource(createBroadcastSampleSource(createBrowserClient(supabaseUrl, supabaseKey), scaleId.trim()))
+  }
+
+  if (source) return <LiveWeighIn source={source} onClose={() => setSource(null)} />
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-4">
+          <CardTitle className="font-sans text-lg font-semibold tracking-tight">Live weigh-in</CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Follow a weigh-in while it streams, before the worker has stored a result.
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-2">
+        <input
+          className={`${inputClass} w-48`}
+          placeholder="Scale id"
+          value={scaleId}
+          onChange={(e) => setScaleId(e.target.value)}
+        />
+        <Button size="sm" onClick={connectScale} disabled={scaleId.trim() === ""}>
+          Watch scale
+        </Button>
+        <span className="text-sm text-muted-foreground">or</span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="bg-transparent"
+          onClick={() => setSource(createSimulatedSampleSource())}
+        >
+          Simulate weigh-in
+        </Button>
+        {error && <p className="w-full text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { useUnits } from "@/components/units-provider"
+import type { Profile } from "@/lib/profiles"
+
+type ProfileManagerProps = {
+  profiles: Profile[]
+  eventCounts: Map<string, number>
+  onAdd: (profile: Omit<Profile, "id" | "color">) => void
+  onUpdate: (id: string, changes: Partial<Omit<Profile, "id">>) => void
+  onRemove: (id: string) => void
+}
+
+const inputClass = "h-8 rounded-md border bg-transparent px-2 text-sm"
+
+export function ProfileManager({ profiles, eventCounts, onAdd, onUpdate, onRemove }: ProfileManagerProps) {
+  const units = useUnits()
+  const [name, setName] = useState("")
+  const [minInput, setMinInput] = useState("")
+  const [maxInput, setMaxInput] = useState("")
+
+  const min = Number(minInput)
+  const max = Number(maxInput)
+  const canAdd =
+    name.trim() !== "" &&
+    minInput !== "" &&
+    maxInput !== "" &&
+    Number.isFinite(min) &&
+    Number.isFinite(max) &&
+    min <= max
+
+  // Bounds are stored in kg and edited in the display unit
+  const shown = (kg: number) => Number(units.toPlot(kg).toFixed(2))
+
+  const handleAdd = () => {
+    if (!canAdd) return
+    onAdd({ name: name.trim(), minKg: units.fromPlot(min), maxKg: units.fromPlot(max) })
+    setName("")
+    setMinInput("")
+    setMaxInput("")
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="font-sans text-lg font-semibold tracking-tight">Profiles</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Events are assigned to the profile whose recent trend is nearest to their stable weight.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="flex flex-wrap items-center gap-2">
+            <div className="h-3 w-3 rounded-full" style={{ background: profile.color }} />
+            <input
+              className={`${inputClass} w-40`}
+              value={profile.name}
+              onChange={(e) => onUpdate(profile.id, { name: e.target.value })}
+              aria-label="Profile name"
+            />
+            <input
+              className={`${inputClass} w-24`}
+              type="number"
+              value={shown(profile.minKg)}
+              onChange={(e) => onUpdate(profile.id, { minKg: units.fromPlot(Number(e.target.value)) })}
+              aria-label={`Minimum weight (${units.plotUnit})`}
+            />
+            <span className="text-sm text-muted-foreground">–</span>
+            <input
+              className={`${inputClass} w-24`}
+              type="number"
+              value={shown(profile.maxKg)}
+              onChange={(e) => onUpdate(profile.id, { maxKg: units.fromPlot(Number(e.target.value)) })}
+              aria-label={`Maximum weight (${units.plotUnit})`}
+            />
+            <span className="text-sm text-muted-foreground">{units.plotUnit}</span>
+            <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded-md">
+              {eventCounts.get(profile.id) ?? 0} events
+            </span>
+            <Button variant="ghost" size="sm" className="text-destructive" onClick={() => onRemove(profile.id)}>
+              Remove
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+          <input
+            className={`${inputClass} w-40`}
+            placeholder="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            className={`${inputClass} w-24`}
+            type="number"
+            placeholder={`Min ${units.plotUnit}`}
+            value={minInput}
+            onChange={(e) => setMinInput(e.target.value)}
+          />
+          <span className="text-sm text-muted-foreground">–</span>
+          <input
+            className={`${inputClass} w-24`}
+            type="number"
+            placeholder={`Max ${units.plotUnit}`}
+            value={maxInput}
+            onChange={(e) => setMaxInput(e.target.value)}
+          />
+          <Button size="sm" onClick={handleAdd} disabled={!canAdd}>
+            Add profile
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,144 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useUnits } from "@/components/units-provider"
+import { formatValue } from "@/components/algorithm-comparison"
+import { compareResults, type StableWeightResult } from "@/lib/stable-weight"
+
+type HistoryEntry = StableWeightResult & {
+  id: string
+  algorithm_version: string
+  computed_at: string
+}
+
+type ResultHistoryProps = {
+  history: HistoryEntry[]
+  overlayIds: Set<string>
+  colorFor: (resultId: string) => string
+  onToggleOverlay: (resultId: string, visible: boolean) => void
+}
+
+const versionLabel = (entry: HistoryEntry) =>
+  `${entry.algorithm_version} · ${new Date(entry.computed_at).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })}`
+
+const selectClass = "h-8 rounded-md border bg-transparent px-2 text-xs"
+
+export function ResultHistory({ history, overlayIds, colorFor, onToggleOverlay }: ResultHistoryProps) {
+  const units = useUnits()
+  const [baseId, setBaseId] = useState<string>("")
+  const [compareId, setCompareId] = useState<string>("")
+
+  // Default to diffing the newest result against the one before it
+  useEffect(() => {
+    if (!history.some((h) => h.id === compareId)) setCompareId(history[0]?.id ?? "")
+    if (!history.some((h) => h.id === baseId)) setBaseId(history[1]?.id ?? history[0]?.id ?? "")
+  }, [history, baseId, compareId])
+
+  const base = history.find((h) => h.id === baseId) ?? null
+  const compare = history.find((h) => h.id === compareId) ?? null
+
+  const diff = useMemo(() => (base && compare ? compareResults(base, compare) : []), [base, compare])
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Result History ({history.length})</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th className="py-1.5 pr-3 text-left font-medium">Overlay</th>
+                <th className="py-1.5 pr-3 text-left font-medium">Version</th>
+                <th className="py-1.5 pr-3 text-left font-medium">Mode</th>
+                <th className="py-1.5 pr-3 text-left font-medium">Computed</th>
+                <th className="py-1.5 pr-3 text-right font-medium">Weight</th>
+                <th className="py-1.5 text-right font-medium">Window (s)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((entry) => (
+                <tr key={entry.id} className="border-b last:border-0">
+                  <td className="py-1 pr-3">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked={overlayIds.has(entry.id)}
+                        onCheckedChange={(checked) => onToggleOverlay(entry.id, checked === true)}
+                        aria-label={`Overlay ${entry.algorithm_version} window`}
+                      />
+                      <span className="h-2.5 w-2.5 rounded-sm" style={{ background: colorFor(entry.id) }} />
+                    </div>
+                  </td>
+                  <td className="py-1 pr-3 font-mono">{entry.algorithm_version}</td>
+                  <td className="py-1 pr-3">{entry.mode}</td>
+                  <td className="py-1 pr-3 whitespace-nowrap">{new Date(entry.computed_at).toLocaleString()}</td>
+                  <td className="py-1 pr-3 text-right font-mono">
+                    {units.format(entry.raw_stable_weight_kg, { extraDigits: 1 })}
+                  </td>
+                  <td className="py-1 text-right font-mono whitespace-nowrap">
+                    {entry.window_start_s.toFixed(2)}–{entry.window_end_s.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {history.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="text-sm font-semibold mr-2">Diff</h3>
+            <select className={selectClass} value={baseId} onChange={(e) => setBaseId(e.target.value)}>
+              {history.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {versionLabel(entry)}
+                </option>
+              ))}
+            </select>
+            <span className="text-xs text-muted-foreground">→</span>
+            <select className={selectClass} value={compareId} onChange={(e) => setCompareId(e.target.value)}>
+              {history.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {versionLabel(entry)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="py-1.5 pr-3 text-left font-medium">Field</th>
+                  <th className="py-1.5 pr-3 text-right font-medium">{base?.algorithm_version ?? "—"}</th>
+                  <th className="py-1.5 pr-3 text-right font-medium">{compare?.algorithm_version ?? "—"}</th>
+                  <th className="py-1.5 text-right font-medium">Δ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.map((r) => (
+                  <tr
+                    key={r.field}
+                    className={`border-b last:border-0 ${r.matches ? "" : "bg-amber-50 text-amber-800"}`}
+                  >
+                    <td className="py-1 pr-3 font-mono">{r.field}</td>
+                    <td className="py-1 pr-3 text-right font-mono">{formatValue(r.stored)}</td>
+                    <td className="py-1 pr-3 text-right font-mono">{formatValue(r.local)}</td>
+                    <td className="py-1 text-right font-mono">
+                      {r.delta === null ? "—" : `${r.delta >= 0 ? "+" : ""}${r.delta.toFixed(4)}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { DataChart } from "@/components/data-chart"
+import { parseSampleFile, type SampleFile } from "@/lib/sample-files"
+import type { EventSummary } from "@/lib/server/weight-data"
+
+type SampleUploadPanelProps = {
+  // A file dropped onto the dashboard; another can be chosen in the panel
+  file: File | null
+  onClose: () => void
+  onSaved: (event: EventSummary, recalculate: boolean) => void
+  // Saving and queueing a recalculation both need a signed-in caller
+  signedIn?: boolean
+}
+
+const inputClass = "h-8 rounded-md border bg-transparent px-2 text-sm"
+
+// datetime-local inputs take local time without a zone
+const toLocalInput = (ms: number) =>
+  new Date(ms - new Date(ms).getTimezoneOffset() * 60_000).toISOString().slice(0, 19)
+
+export function SampleUploadPanel({
+  file: droppedFile,
+  onClose,
+  onSaved,
+  signedIn = true,
+}: SampleUploadPanelProps) {
+  const [file, setFile] = useState<File | null>(droppedFile)
+  const [parsed, setParsed] = useState<SampleFile | null>(null)
+  const [readError, setReadError] = useState<string | null>(null)
+  const [startedAt, setStartedAt] = useState("")
+  const [queueRecalculation, setQueueRecalculation] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (droppedFile) setFile(droppedFile)
+  }, [droppedFile])
+
+  useEffect(() => {
+    setParsed(null)
+    setReadError(null)
+    setSaveError(null)
+    if (!file) return
+
+    let cancelled = false
+    file
+      .text()
+      .then((text) => {
+        if (cancelled) return
+        const result = parseSampleFile(file.name, text)
+        setParsed(result)
+        // Without a start time in the file, the file's own timestamp is the best guess
+        setStartedAt(toLocalInput(result.startedAt ? Date.parse(result.startedAt) : file.lastModified))
+        if (result.samples.length < 2) setReadError("The file needs at least two valid samples")
+      })
+      .catch((err) => {
+        if (!cancelled) setReadError(err instanceof Error ? err.message : "Could not read this file")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [file])
+
+  const startedAtMs = Date.parse(startedAt)
+  const canSave =
+    signedIn && parsed !== null && parsed.samples.length >= 2 && !Number.isNaN(startedAtMs) && !saving
+
+  const handleSave = async () => {
+    if (!parsed) return
+    setSaving(true)
+    setSaveError(null)
+    try {
+      const response = await fetch("/api/events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ started_at: new Date(startedAtMs).toISOString(), samples: parsed.samples }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error?.message || "Failed to save the event")
+      onSaved(result.event, queueRecalculation)
+    } catch (err) {
+      console.error("[v0] Error saving uploaded samples:", err)
+      setSaveError(err instanceof Error ? err.message : "Failed to save the event")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-4">
+          <CardTitle className="font-sans text-lg font-semibold tracking-tight">Upload samples</CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Preview an offline or bench capture of <code>{"{ t, kg }"}</code> pairs (t in ms) from a JSON or CSV file,
+          then save it as a new weigh-in. Drop a file anywhere on the dashboard to open it here.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          type="file"
+          accept=".json,.csv,.txt"
+          className="text-sm"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          aria-label="Sample file"
+        />
+        {readError && <p className="text-sm text-destructive">{readError}</p>}
+        {parsed && parsed.problems.length > 0 && (
+          <p className="text-sm text-amber-700">{parsed.problems[0].message}. They are left out of the upload.</p>
+        )}
+        {file && parsed && parsed.samples.length >= 2 && (
+          <>
+            <DataChart
+              title={file.name}
+              data={parsed.samples}
+              createdAt={Number.isNaN(startedAtMs) ? undefined : new Date(startedAtMs).toISOString()}
+            />
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Started at</span>
+                <input
+                  type="datetime-local"
+                  step={1}
+                  className={inputClass}
+                  value={startedAt}
+                  onChange={(e) => setStartedAt(e.target.value)}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={queueRecalculation && signedIn}
+                  disabled={!signedIn}
+                  onCheckedChange={(checked) => setQueueRecalculation(checked === true)}
+                />
+                <span className="text-muted-foreground">
+                  Queue for recalculation
+                </span>
+              </label>
+              <Button size="sm" onClick={handleSave} disabled={!canSave}>
+                {saving
+                  ? "Saving..."
+                  : signedIn
+                    ? `Save ${parsed.samples.length} samples as a weigh-in`
+                    : "Sign in to save"}
+              </Button>
+            </div>
+            {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import { useMemo } from "react"
+import { AlertCircle } from "lucide-react"
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  rollingLowQualityFraction,
+  type HealthAlert,
+  type HealthThresholds,
+  type ScaleHealthSeries,
+} from "@/lib/scale-health"
+
+export function ScaleHealthAlerts({ alerts }: { alerts: HealthAlert[] }) {
+  if (alerts.length === 0) return null
+
+  return (
+    <Alert className="border-destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>
+        {alerts.length} scale health alert{alerts.length !== 1 ? "s" : ""}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1">
+          {alerts.map((alert) => (
+            <li key={`${alert.scale_id}:${alert.metric}`}>
+              <span className="font-mono text-xs">{alert.scale_id}</span> — {alert.message}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  )
+}
+
+const THRESHOLD_FIELDS: { key: keyof HealthThresholds; label: string; step: number }[] = [
+  { key: "recentEvents", label: "Recent events", step: 1 },
+  { key: "maxZeroOffsetKg", label: "Max zero offset (kg)", step: 0.01 },
+  { key: "maxNoiseKg", label: "Max noise floor (kg)", step: 0.005 },
+  { key: "maxNoiseGrowth", label: "Max noise growth (×)", step: 0.1 },
+  { key: "maxSettlingS", label: "Max settling time (s)", step: 0.5 },
+  { key: "lowQuality", label: "Low quality below", step: 0.05 },
+  { key: "maxLowQualityFraction", label: "Max low-quality share", step: 0.05 },
+]
+
+type HealthThresholdsFormProps = {
+  thresholds: HealthThresholds
+  onChange: (thresholds: HealthThresholds) => void
+  onReset: () => void
+}
+
+export function HealthThresholdsForm({ thresholds, onChange, onReset }: HealthThresholdsFormProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-3 text-sm">
+      {THRESHOLD_FIELDS.map(({ key, label, step }) => (
+        <label key={key} className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">{label}</span>
+          <input
+            className="h-8 w-28 rounded-md border bg-transparent px-2 text-sm"
+            type="number"
+            min={key === "recentEvents" ? 1 : 0}
+            step={step}
+            value={thresholds[key]}
+            onChange={(e) => {
+              const value = Number(e.target.value)
+              if (e.target.value === "" || !Number.isFinite(value) || value < 0) return
+              onChange({ ...thresholds, [key]: key === "recentEvents" ? Math.max(1, Math.round(value)) : value })
+            }}
+          />
+        </label>
+      ))}
+      <button type="button" className="h-8 text-xs text-muted-foreground hover:text-foreground" onClick={onReset}>
+        Reset to defaults
+      </button>
+    </div>
+  )
+}
+
+type MetricChartProps = {
+  title: string
+  data: { date: string; value: number | null }[]
+  threshold: number
+  unit: string
+  digits: number
+  // Plot the absolute value against a symmetric threshold
+  symmetric?: boolean
+}
+
+function MetricChart({ title, data, threshold, unit, digits, symmetric = false }: MetricChartProps) {
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{title}</p>
+      <ResponsiveContainer width="100%" height={160}>
+        <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+          <XAxis
+            dataKey="date"
+            className="text-xs"
+            tick={{ fill: "hsl(var(--muted-foreground))" }}
+            tickFormatter={(value) => new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+          />
+          <YAxis
+            className="text-xs"
+            tick={{ fill: "hsl(var(--muted-foreground))" }}
+            domain={["auto", "auto"]}
+            tickFormatter={(value) => Number(value).toFixed(digits)}
+            width={50}
+          />
+          <Tooltip
+            labelFormatter={(value) => new Date(value).toLocaleString()}
+            formatter={(value) => [`${Number(value).toFixed(digits)} ${unit}`, title]}
+          />
+          <ReferenceLine y={threshold} stroke="#ef4444" strokeDasharray="4 4" />
+          {symmetric && <ReferenceLine y={-threshold} stroke="#ef4444" strokeDasharray="4 4" />}
+          <Line
+            type="monotone"
+            dataKey="value"
+            stroke="#3b82f6"
+            strokeWidth={1.5}
+            dot={{ r: 2 }}
+            connectNulls
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+type ScaleHealthChartsProps = {
+  series: ScaleHealthSeries
+  thresholds: HealthThresholds
+}
+
+export function ScaleHealthCharts({ series, thresholds }: ScaleHealthChartsProps) {
+  const charts = useMemo(() => {
+    const lowQuality = rollingLowQualityFraction(series.events, thresholds.lowQuality, thresholds.recentEvents)
+    const pick = (value: (i: number) => number | null) =>
+      series.events.map((event, i) => ({ date: event.started_at, value: value(i) }))
+    return {
+      zero: pick((i) => series.events[i].zero_offset_kg),
+      noise: pick((i) => series.events[i].noise_kg),
+      settling: pick((i) => series.events[i].settling_s),
+      lowQuality: pick((i) => lowQuality[i] * 100),
+    }
+  }, [series, thresholds.lowQuality, thresholds.recentEvents])
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="font-sans text-lg font-semibold tracking-tight">
+          Health of <span className="font-mono text-base">{series.scale_id}</span>
+        </CardTitle>
+        <CardDescription>
+          Last {series.events.length} event{series.events.length !== 1 ? "s" : ""}. Dashed lines are the alert
+          thresholds.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <MetricChart
+          title="Zero offset"
+          data={charts.zero}
+          threshold={thresholds.maxZeroOffsetKg}
+          unit="kg"
+          digits={3}
+          symmetric
+        />
+        <MetricChart title="Noise floor" data={charts.noise} threshold={thresholds.maxNoiseKg} unit="kg" digits={4} />
+        <MetricChart
+          title="Settling time"
+          data={charts.settling}
+          threshold={thresholds.maxSettlingS}
+          unit="s"
+          digits={1}
+        />
+        <MetricChart
+          title={`Low-quality share (last ${thresholds.recentEvents})`}
+          data={charts.lowQuality}
+          threshold={thresholds.maxLowQualityFraction * 100}
+          unit="%"
+          digits={0}
+        />
+      </CardContent>
+    </Card>
+  )
+}
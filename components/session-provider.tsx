@@ -0,0 +1,58 @@
+"use client"
+
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react"
+import { createBrowserClient } from "@supabase/ssr"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+type SessionUser = { id: string; email: string | null }
+
+type SessionContextValue = {
+  // null without Supabase credentials, in which case only the API token can write
+  supabase: SupabaseClient | null
+  user: SessionUser | null
+  loading: boolean
+  signOut: () => Promise<void>
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null)
+
+// The browser client keeps the session in cookies, which the API routes read
+// through requireCaller, so signed-in requests need no Authorization header
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const supabase = useMemo(() => {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    return supabaseUrl && supabaseKey ? createBrowserClient(supabaseUrl, supabaseKey) : null
+  }, [])
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [loading, setLoading] = useState(supabase !== null)
+
+  useEffect(() => {
+    if (!supabase) return
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session ? { id: session.user.id, email: session.user.email ?? null } : null)
+      setLoading(false)
+    })
+    return () => data.subscription.unsubscribe()
+  }, [supabase])
+
+  const value = useMemo(
+    () => ({
+      supabase,
+      user,
+      loading,
+      signOut: async () => {
+        const { error } = (await supabase?.auth.signOut()) ?? { error: null }
+        if (error) console.error("[v0] Error signing out:", error)
+      },
+    }),
+    [supabase, user, loading],
+  )
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+}
+
+// Signed out outside a SessionProvider
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext)
+  return context ?? { supabase: null, user: null, loading: false, signOut: async () => {} }
+}
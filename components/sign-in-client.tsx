@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { ArrowLeft, LogIn, Mail } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useSession } from "@/components/session-provider"
+
+const inputClass = "h-9 w-72 rounded-md border bg-transparent px-2 text-sm"
+
+// Only same-site paths, so the link cannot send the user elsewhere after signing in
+const safeNext = (next: string | null) => (next && next.startsWith("/") && !next.startsWith("//") ? next : "/")
+
+export function SignInClient() {
+  const { supabase, user, loading } = useSession()
+  const router = useRouter()
+  const next = safeNext(useSearchParams().get("next"))
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: "info" | "error"; text: string } | null>(null)
+
+  // Also picks up the session from an emailed link, which lands back on this page
+  useEffect(() => {
+    if (user) router.replace(next)
+  }, [user, next])
+
+  const signInWithPassword = async () => {
+    if (!supabase) return
+    setBusy(true)
+    setMessage(null)
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password })
+    if (error) setMessage({ type: "error", text: error.message })
+    setBusy(false)
+  }
+
+  const sendLink = async () => {
+    if (!supabase) return
+    setBusy(true)
+    setMessage(null)
+    const redirect = new URL("/sign-in", window.location.origin)
+    redirect.searchParams.set("next", next)
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: redirect.toString(), shouldCreateUser: false },
+    })
+    setMessage(
+      error ? { type: "error", text: error.message } : { type: "info", text: `Sent a sign-in link to ${email.trim()}` },
+    )
+    setBusy(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-6">
+          <Link href="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Dashboard
+          </Link>
+          <h1 className="mt-2 font-sans text-3xl font-bold tracking-tight">Sign in</h1>
+          <p className="mt-2 text-muted-foreground">
+            Viewing is open, but recalculating, importing and uploading weigh-ins need a Supabase account for this
+            project.
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card className="max-w-xl">
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+            <CardDescription>Sign in with a password, or have a one-time link emailed to you.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!supabase ? (
+              <p className="text-sm text-muted-foreground">
+                Supabase is not configured, so there is nothing to sign in to. Scripts can still use the API token.
+              </p>
+            ) : (
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  signInWithPassword()
+                }}
+              >
+                <label className="flex flex-col gap-1 text-sm">
+                  <span className="text-muted-foreground">Email</span>
+                  <input
+                    className={inputClass}
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm">
+                  <span className="text-muted-foreground">Password</span>
+                  <input
+                    className={inputClass}
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  <Button type="submit" size="sm" disabled={busy || loading || !email.trim() || !password}>
+                    <LogIn className="mr-2 h-4 w-4" />
+                    Sign in
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="bg-transparent"
+                    disabled={busy || loading || !email.trim()}
+                    onClick={sendLink}
+                  >
+                    <Mail className="mr-2 h-4 w-4" />
+                    Email me a link
+                  </Button>
+                </div>
+                {message && (
+                  <Alert className={message.type === "error" ? "border-destructive" : undefined}>
+                    <AlertDescription>{message.text}</AlertDescription>
+                  </Alert>
+                )}
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  DEFAULT_SIGNAL_PROCESSING,
+  SIGNAL_FILTERS,
+  type SignalFilter,
+  type SignalProcessingSettings,
+  type StabilityThresholds,
+} from "@/lib/signal-processing"
+import type { StableWeightResult } from "@/lib/stable-weight"
+
+const inputClass = "h-8 rounded-md border bg-transparent px-2 text-sm"
+
+const THRESHOLD_FIELDS: { key: keyof StabilityThresholds; label: string; step: number }[] = [
+  { key: "windowS", label: "Window (s)", step: 0.25 },
+  { key: "maxSlopeKgPerS", label: "Max slope (kg/s)", step: 0.01 },
+  { key: "maxStdKg", label: "Max std (kg)", step: 0.005 },
+  { key: "minWeightKg", label: "Min weight (kg)", step: 1 },
+  { key: "minDurationS", label: "Min duration (s)", step: 0.25 },
+]
+
+type SignalProcessingPanelProps = {
+  settings: SignalProcessingSettings
+  onChange: (settings: SignalProcessingSettings) => void
+  // Stretches that meet the thresholds
+  regionCount: number
+  // The local algorithm run with the tuned thresholds
+  tuned: StableWeightResult | null
+  stored?: { window_start_s: number; window_end_s: number; algorithm_version: string }
+}
+
+const windowText = (startS: number, endS: number) => `${startS.toFixed(2)}–${endS.toFixed(2)} s`
+
+export function SignalProcessingPanel({ settings, onChange, regionCount, tuned, stored }: SignalProcessingPanelProps) {
+  const update = (changes: Partial<SignalProcessingSettings>) => onChange({ ...settings, ...changes })
+  const positive = (value: string) => {
+    const number = Number(value)
+    return value !== "" && Number.isFinite(number) && number > 0 ? number : null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-sm font-semibold">Signal Processing</h3>
+        <button
+          type="button"
+          className="text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => onChange(DEFAULT_SIGNAL_PROCESSING)}
+        >
+          Reset to algorithm defaults
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Filter</span>
+          <select
+            className={inputClass}
+            value={settings.filter}
+            onChange={(e) => update({ filter: e.target.value as SignalFilter })}
+          >
+            {SIGNAL_FILTERS.map((filter) => (
+              <option key={filter.id} value={filter.id}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {settings.filter === "low-pass" && (
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Cutoff (Hz)</span>
+            <input
+              className={`${inputClass} w-20`}
+              type="number"
+              min="0"
+              step="0.5"
+              value={settings.cutoffHz}
+              onChange={(e) => {
+                const cutoffHz = positive(e.target.value)
+                if (cutoffHz !== null) update({ cutoffHz })
+              }}
+            />
+          </label>
+        )}
+        {settings.filter === "median" && (
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Window (ms)</span>
+            <input
+              className={`${inputClass} w-24`}
+              type="number"
+              min="0"
+              step="20"
+              value={settings.medianWindowMs}
+              onChange={(e) => {
+                const medianWindowMs = positive(e.target.value)
+                if (medianWindowMs !== null) update({ medianWindowMs })
+              }}
+            />
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={settings.showDerivative}
+            onCheckedChange={(checked) => update({ showDerivative: checked === true })}
+          />
+          <span className="text-muted-foreground">Derivative</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={settings.showRollingStd}
+            onCheckedChange={(checked) => update({ showRollingStd: checked === true })}
+          />
+          <span className="text-muted-foreground">Rolling std</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={settings.showStable}
+            onCheckedChange={(checked) => update({ showStable: checked === true })}
+          />
+          <span className="text-muted-foreground">Shade stable regions</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        {THRESHOLD_FIELDS.map(({ key, label, step }) => (
+          <label key={key} className="flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">{label}</span>
+            <input
+              className={`${inputClass} w-28`}
+              type="number"
+              min="0"
+              step={step}
+              value={settings.thresholds[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value)
+                if (e.target.value === "" || !Number.isFinite(value) || value < 0) return
+                update({ thresholds: { ...settings.thresholds, [key]: value } })
+              }}
+            />
+          </label>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {regionCount} stable region{regionCount !== 1 ? "s" : ""} with these thresholds.{" "}
+        {tuned
+          ? `With them the local algorithm picks ${windowText(tuned.window_start_s, tuned.window_end_s)} ` +
+            `(${tuned.mode}), outlined in green.`
+          : "Not enough samples to run the local algorithm."}{" "}
+        {stored &&
+          `The stored result (${stored.algorithm_version}) picked ` +
+            `${windowText(stored.window_start_s, stored.window_end_s)}, outlined in blue.`}{" "}
+        Derivative and std are the slope and spread of the least-squares fit over each window, as the algorithm
+        measures them; their axis is clipped to a few times the thresholds.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { createContext, useContext, useMemo, type ReactNode } from "react"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { DEFAULT_SIGNAL_PROCESSING, type SignalProcessingSettings } from "@/lib/signal-processing"
+
+const PROCESSING_KEY = "autoscale.signalProcessing"
+
+type SignalProcessingContextValue = {
+  settings: SignalProcessingSettings
+  setSettings: (settings: SignalProcessingSettings) => void
+}
+
+const SignalProcessingContext = createContext<SignalProcessingContextValue | null>(null)
+
+// Shares the processing settings so a change in one chart's panel applies to every chart
+export function SignalProcessingProvider({ children }: { children: ReactNode }) {
+  const [stored, setSettings] = useStoredState<SignalProcessingSettings>(PROCESSING_KEY, DEFAULT_SIGNAL_PROCESSING)
+  // Settings saved by an older version may lack newer fields
+  const value = useMemo(
+    () => ({
+      settings: {
+        ...DEFAULT_SIGNAL_PROCESSING,
+        ...stored,
+        thresholds: { ...DEFAULT_SIGNAL_PROCESSING.thresholds, ...stored.thresholds },
+      },
+      setSettings,
+    }),
+    [stored, setSettings],
+  )
+  return <SignalProcessingContext.Provider value={value}>{children}</SignalProcessingContext.Provider>
+}
+
+// Falls back to the defaults outside a SignalProcessingProvider
+export function useSignalProcessing(): SignalProcessingContextValue {
+  const context = useContext(SignalProcessingContext)
+  return context ?? { settings: DEFAULT_SIGNAL_PROCESSING, setSettings: () => {} }
+}
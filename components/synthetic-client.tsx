@@ -0,0 +1,330 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { ArrowLeft, Check, Copy, Download, Shuffle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { DataChart } from "@/components/data-chart"
+import { useUnits } from "@/components/units-provider"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { listEstimators } from "@/lib/estimators"
+import { LOCAL_ALGORITHM_VERSION, computeStableWeight } from "@/lib/stable-weight"
+import { downloadFile } from "@/lib/download"
+import {
+  SYNTHETIC_FEATURES,
+  generateSyntheticWeighIn,
+  parseSyntheticOptions,
+  randomSeed,
+  serializeSyntheticOptions,
+  type SyntheticFeature,
+  type SyntheticWeighInOptions,
+} from "@/lib/synthetic"
+
+const inputClass = "h-8 rounded-md border bg-transparent px-2 text-sm"
+
+// Recently generated weigh-ins, newest first, so a seed that exposed a bug is not lost
+const MAX_RECENT = 10
+
+type Draft = { seed: string; weight: string; rateHz: string; noiseKg: string; holdS: string }
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  step,
+  className = "w-24",
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  step: string
+  className?: string
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <input
+        className={`${inputClass} ${className}`}
+        type="number"
+        step={step}
+        min="0"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </label>
+  )
+}
+
+export function SyntheticClient() {
+  const units = useUnits()
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+  const options = useMemo(() => parseSyntheticOptions(new URLSearchParams(searchParams.toString())), [searchParams])
+  const query = serializeSyntheticOptions(options).toString().replace(/%2C/g, ",")
+
+  const [recent, setRecent] = useStoredState<string[]>("autoscale.syntheticRecent", [])
+  const [copied, setCopied] = useState(false)
+
+  const toDraft = (o: SyntheticWeighInOptions): Draft => ({
+    seed: String(o.seed),
+    weight: String(Number(units.toPlot(o.targetKg).toFixed(2))),
+    rateHz: String(o.rateHz),
+    noiseKg: String(o.noiseKg),
+    holdS: String(o.holdS),
+  })
+  const [draft, setDraft] = useState<Draft>(() => toDraft(options))
+
+  useEffect(() => {
+    setDraft(toDraft(options))
+    setRecent((prev) => [query, ...prev.filter((entry) => entry !== query)].slice(0, MAX_RECENT))
+  }, [query, units.plotUnit])
+
+  const generated = useMemo(() => generateSyntheticWeighIn(options), [options])
+  const local = useMemo(() => computeStableWeight(generated.samples), [generated])
+  const estimates = useMemo(
+    () => listEstimators().map((estimator) => ({ estimator, kg: estimator.estimate(generated.samples).kg })),
+    [generated],
+  )
+
+  // replace rather than push, like the dashboard's view state
+  const apply = (changes: Partial<SyntheticWeighInOptions>) => {
+    const next = serializeSyntheticOptions({ ...options, ...changes }).toString().replace(/%2C/g, ",")
+    router.replace(`${pathname}?${next}`, { scroll: false })
+  }
+
+  const applyDraft = (changes: Partial<SyntheticWeighInOptions> = {}) => {
+    const number = (value: string, fallback: number) =>
+      value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : fallback
+    // Only an edited weight is converted back, so an untouched pound value does not drift the kg
+    const weightEdited = draft.weight !== toDraft(options).weight
+    apply({
+      seed: number(draft.seed, options.seed),
+      targetKg: weightEdited ? Number(units.fromPlot(number(draft.weight, 0)).toFixed(4)) : options.targetKg,
+      rateHz: number(draft.rateHz, options.rateHz),
+      noiseKg: number(draft.noiseKg, options.noiseKg),
+      holdS: number(draft.holdS, options.holdS),
+      ...changes,
+    })
+  }
+
+  const toggleFeature = (feature: SyntheticFeature, enabled: boolean) => {
+    const features = SYNTHETIC_FEATURES.map((f) => f.id).filter((id) =>
+      id === feature ? enabled : options.features.includes(id),
+    )
+    apply({ features })
+  }
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  // Readable by Upload Samples on the dashboard, so a generated weigh-in can be stored as an event
+  const download = () => {
+    const { options: settings, trueKg, samples } = generated
+    const content = JSON.stringify({ ...settings, true_kg: trueKg, samples }, null, 2)
+    downloadFile(`synthetic-seed-${options.seed}.json`, content, "application/json")
+  }
+
+  const errorText = (kg: number | null) =>
+    kg === null ? "—" : units.format(kg - generated.trueKg, { signed: true, extraDigits: 1 })
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-6">
+          <Link href="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Dashboard
+          </Link>
+          <h1 className="mt-2 font-sans text-3xl font-bold tracking-tight">Synthetic weigh-ins</h1>
+          <p className="mt-2 text-muted-foreground">
+            Generate reproducible weigh-ins with known weight to test the stable-weight algorithm, the estimators and
+            the charts. The seed and settings are kept in the URL.
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Scenario</CardTitle>
+            <CardDescription>
+              Combine any of these on top of a person standing still at the target weight.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              {SYNTHETIC_FEATURES.map((feature) => (
+                <label key={feature.id} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={options.features.includes(feature.id)}
+                    onCheckedChange={(checked) => toggleFeature(feature.id, checked === true)}
+                  />
+                  <span>
+                    <span className="font-medium">{feature.label}</span>
+                    <span className="block text-xs text-muted-foreground">{feature.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <form
+              className="flex flex-wrap items-center gap-4"
+              onSubmit={(e) => {
+                e.preventDefault()
+                applyDraft()
+              }}
+            >
+              <NumberField
+                label="Seed"
+                value={draft.seed}
+                onChange={(seed) => setDraft((prev) => ({ ...prev, seed }))}
+                step="1"
+                className="w-32 font-mono"
+              />
+              <NumberField
+                label={`Weight (${units.plotUnit})`}
+                value={draft.weight}
+                onChange={(weight) => setDraft((prev) => ({ ...prev, weight }))}
+                step="0.1"
+              />
+              <NumberField
+                label="Rate (Hz)"
+                value={draft.rateHz}
+                onChange={(rateHz) => setDraft((prev) => ({ ...prev, rateHz }))}
+                step="1"
+                className="w-20"
+              />
+              <NumberField
+                label="Noise std (kg)"
+                value={draft.noiseKg}
+                onChange={(noiseKg) => setDraft((prev) => ({ ...prev, noiseKg }))}
+                step="0.001"
+              />
+              <NumberField
+                label="Hold (s)"
+                value={draft.holdS}
+                onChange={(holdS) => setDraft((prev) => ({ ...prev, holdS }))}
+                step="0.5"
+                className="w-20"
+              />
+              <Button type="submit" size="sm">
+                Generate
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="bg-transparent"
+                onClick={() => applyDraft({ seed: randomSeed() })}
+              >
+                <Shuffle className="mr-2 h-4 w-4" />
+                New seed
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="space-y-1">
+                <CardTitle>Ground truth</CardTitle>
+                <CardDescription>
+                  Seed <span className="font-mono">{options.seed}</span> · {generated.samples.length} samples · true
+                  weight {units.format(generated.trueKg)}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" className="bg-transparent" onClick={copyLink}>
+                  {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+                  {copied ? "Copied" : "Copy link"}
+                </Button>
+                <Button size="sm" variant="outline" className="bg-transparent" onClick={download}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download JSON
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="py-2 pr-3 text-left font-medium">Method</th>
+                  <th className="py-2 pr-3 text-right font-medium">Weight</th>
+                  <th className="py-2 text-right font-medium">Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b">
+                  <td className="py-1.5 pr-3">
+                    Local algorithm <span className="text-xs text-muted-foreground">({LOCAL_ALGORITHM_VERSION})</span>
+                  </td>
+                  <td className="py-1.5 pr-3 text-right font-mono">
+                    {local ? units.format(local.raw_stable_weight_kg, { extraDigits: 1 }) : "—"}
+                  </td>
+                  <td className="py-1.5 text-right font-mono">{errorText(local?.raw_stable_weight_kg ?? null)}</td>
+                </tr>
+                {estimates.map(({ estimator, kg }) => (
+                  <tr key={estimator.id} className="border-b last:border-0">
+                    <td className="py-1.5 pr-3">{estimator.label}</td>
+                    <td className="py-1.5 pr-3 text-right font-mono">
+                      {kg !== null ? units.format(kg, { extraDigits: 1 }) : "—"}
+                    </td>
+                    <td className="py-1.5 text-right font-mono">{errorText(kg)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {generated.disturbances.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {generated.disturbances
+                  .map((d) => {
+                    const label = SYNTHETIC_FEATURES.find((f) => f.id === d.feature)?.label ?? d.feature
+                    return `${label} ${d.startS.toFixed(2)}–${d.endS.toFixed(2)} s`
+                  })
+                  .join(" · ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <DataChart key={query} title={`Synthetic weigh-in · seed ${options.seed}`} data={generated.samples} />
+
+        {recent.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent</CardTitle>
+              <CardDescription>Weigh-ins generated in this browser, newest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-1 text-sm">
+                {recent.map((entry) => {
+                  const o = parseSyntheticOptions(new URLSearchParams(entry))
+                  return (
+                    <li key={entry}>
+                      <Link href={`${pathname}?${entry}`} className="font-mono hover:underline">
+                        seed {o.seed}
+                      </Link>
+                      <span className="ml-2 text-muted-foreground">
+                        {o.features.length > 0 ? o.features.join(", ") : "no features"} ·{" "}
+                        {units.format(o.targetKg)} · {o.rateHz} Hz
+                      </span>
+                    </li>
+                  )
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+"use client"
+
+import { useMemo } from "react"
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { useUnits } from "@/components/units-provider"
+import {
+  classifyTimeOfDay,
+  intradayDeltas,
+  type HourRange,
+  type TimeOfDay,
+  type TimeOfDayBuckets,
+} from "@/lib/time-of-day"
+import { movingAverage } from "@/lib/trend-smoothing"
+import { rangeBounds, type TrendRange } from "@/lib/view-state"
+
+type TimeOfDayChartProps = {
+  data: { timestamp: number; weight: number }[]
+  range: TrendRange
+  buckets: TimeOfDayBuckets
+  onBucketsChange: (buckets: TimeOfDayBuckets) => void
+  onResetBuckets: () => void
+}
+
+const SERIES = {
+  morning: { label: "Morning", color: "#f59e0b" },
+  evening: { label: "Evening", color: "#6366f1" },
+}
+
+// Delta trend window, in days
+const DELTA_AVERAGE_DAYS = 14
+
+const formatTick = (value: number) =>
+  new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`
+
+function HourRangeInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: HourRange
+  onChange: (value: HourRange) => void
+}) {
+  const select = (key: keyof HourRange) => (
+    <select
+      className="h-8 rounded-md border bg-transparent px-2 text-sm"
+      value={value[key]}
+      onChange={(e) => onChange({ ...value, [key]: Number(e.target.value) })}
+      aria-label={`${label} ${key === "startHour" ? "start" : "end"}`}
+    >
+      {Array.from({ length: 24 }, (_, hour) => (
+        <option key={hour} value={hour}>
+          {formatHour(hour)}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="flex items-center gap-1.5 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      {select("startHour")}
+      <span className="text-muted-foreground">to</span>
+      {select("endHour")}
+    </div>
+  )
+}
+
+export function TimeOfDayChart({ data, range, buckets, onBucketsChange, onResetBuckets }: TimeOfDayChartProps) {
+  const units = useUnits()
+  const inRange = useMemo(() => {
+    const bounds = rangeBounds(range)
+    return bounds ? data.filter((p) => p.timestamp >= bounds.start && p.timestamp <= bounds.end) : data
+  }, [data, range])
+
+  const series = useMemo(() => {
+    const byBucket: Record<TimeOfDay, { timestamp: number; weight: number; plot: number }[]> = {
+      morning: [],
+      evening: [],
+      other: [],
+    }
+    for (const point of inRange) {
+      const bucket = classifyTimeOfDay(new Date(point.timestamp), buckets)
+      byBucket[bucket].push({ ...point, plot: units.toPlot(point.weight) })
+    }
+    return byBucket
+  }, [inRange, buckets, units])
+
+  const deltas = useMemo(() => {
+    const daily = intradayDeltas(inRange, buckets)
+    const trend = movingAverage(
+      daily.map((d) => ({ timestamp: d.timestamp, weight: d.deltaKg, uncertainty: 0 })),
+      DELTA_AVERAGE_DAYS,
+    )
+    return daily.map((d, i) => ({
+      ...d,
+      averageKg: trend[i],
+      deltaPlot: units.toPlot(d.deltaKg),
+      averagePlot: units.toPlot(trend[i]),
+    }))
+  }, [inRange, buckets, units])
+
+  const averageDelta = deltas.length > 0 ? deltas.reduce((sum, d) => sum + d.deltaKg, 0) / deltas.length : null
+  const mean = (points: { weight: number }[]) =>
+    points.length > 0 ? points.reduce((sum, p) => sum + p.weight, 0) / points.length : null
+  const morningAvg = mean(series.morning)
+  const eveningAvg = mean(series.evening)
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="font-sans text-lg font-semibold tracking-tight">Morning vs Evening</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {series.morning.length} morning and {series.evening.length} evening weigh-ins
+              {series.other.length > 0 && `, ${series.other.length} outside both`}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {morningAvg !== null && (
+              <div className="flex items-center gap-1.5">
+                <span className="text-muted-foreground">Morning avg:</span>
+                <span className="font-medium">{units.format(morningAvg)}</span>
+              </div>
+            )}
+            {eveningAvg !== null && (
+              <div className="flex items-center gap-1.5">
+                <span className="text-muted-foreground">Evening avg:</span>
+                <span className="font-medium">{units.format(eveningAvg)}</span>
+              </div>
+            )}
+            {averageDelta !== null && (
+              <div className="flex items-center gap-1.5" title={`Over ${deltas.length} days with both`}>
+                <span className="text-muted-foreground">Intraday delta:</span>
+                <span className="font-medium">{units.format(averageDelta, { signed: true })}</span>
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 pt-2">
+          <HourRangeInput
+            label="Morning"
+            value={buckets.morning}
+            onChange={(morning) => onBucketsChange({ ...buckets, morning })}
+          />
+          <HourRangeInput
+            label="Evening"
+            value={buckets.evening}
+            onChange={(evening) => onBucketsChange({ ...buckets, evening })}
+          />
+          <Button variant="ghost" size="sm" onClick={onResetBuckets}>
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ResponsiveContainer width="100%" height={240}>
+          <ComposedChart margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              className="text-xs"
+              tick={{ fill: "hsl(var(--muted-foreground))" }}
+              tickFormatter={formatTick}
+            />
+            <YAxis
+              className="text-xs"
+              tick={{ fill: "hsl(var(--muted-foreground))" }}
+              domain={["dataMin - 1", "dataMax + 1"]}
+              tickFormatter={(value) => units.formatTick(Number(value))}
+            />
+            <Tooltip
+              labelFormatter={(value) => new Date(Number(value)).toLocaleString()}
+              formatter={(value, name) => [units.format(units.fromPlot(Number(value))), name]}
+            />
+            {(["morning", "evening"] as const).map((bucket) => (
+              <Line
+                key={bucket}
+                data={series[bucket]}
+                dataKey="plot"
+                name={SERIES[bucket].label}
+                stroke={SERIES[bucket].color}
+                strokeWidth={2}
+                dot={{ r: 3, fill: SERIES[bucket].color }}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+
+        {deltas.length > 0 ? (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              Evening minus morning in {units.plotUnit}, per day ({DELTA_AVERAGE_DAYS}-day average as a line)
+            </p>
+            <ResponsiveContainer width="100%" height={180}>
+              <ComposedChart data={deltas} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  className="text-xs"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  tickFormatter={formatTick}
+                />
+                <YAxis
+                  className="text-xs"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  tickFormatter={(value) => Number(value).toFixed(1)}
+                />
+                <Tooltip
+                  labelFormatter={(value) => new Date(Number(value)).toLocaleDateString()}
+                  formatter={(value, name) => [units.format(units.fromPlot(Number(value)), { signed: true }), name]}
+                />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                <Bar dataKey="deltaPlot" name="Delta" fill="#94a3b8" isAnimationActive={false} />
+                <Line
+                  dataKey="averagePlot"
+                  name={`${DELTA_AVERAGE_DAYS}-day average`}
+                  stroke="#0f172a"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No day in this range has weigh-ins in both the morning and the evening.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
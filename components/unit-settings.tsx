@@ -0,0 +1,53 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useUnits } from "@/components/units-provider"
+import { PRECISION_OPTIONS, UNIT_OPTIONS, type WeightUnit } from "@/lib/units"
+
+export function UnitSettings() {
+  const { unit, label, precision, setPreferences } = useUnits()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="bg-transparent">
+          Units: {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Weight unit</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={unit}
+          onValueChange={(value) => setPreferences({ unit: value as WeightUnit, precision })}
+        >
+          {UNIT_OPTIONS.map((option) => (
+            <DropdownMenuRadioItem key={option.unit} value={option.unit}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Decimals</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={String(precision)}
+          onValueChange={(value) => setPreferences({ unit, precision: Number(value) })}
+        >
+          {PRECISION_OPTIONS.map((digits) => (
+            <DropdownMenuRadioItem key={digits} value={String(digits)}>
+              {digits}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
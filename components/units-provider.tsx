@@ -0,0 +1,27 @@
+"use client"
+
+import { createContext, useContext, useMemo, type ReactNode } from "react"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { DEFAULT_UNIT_PREFERENCES, createUnits, type UnitPreferences, type Units } from "@/lib/units"
+
+const UNITS_KEY = "autoscale.units"
+
+type UnitsContextValue = Units & { setPreferences: (preferences: UnitPreferences) => void }
+
+const UnitsContext = createContext<UnitsContextValue | null>(null)
+
+// Shares the unit preference so every chart re-renders when it changes
+export function UnitsProvider({ children }: { children: ReactNode }) {
+  const [preferences, setPreferences] = useStoredState<UnitPreferences>(UNITS_KEY, DEFAULT_UNIT_PREFERENCES)
+  const value = useMemo(
+    () => ({ ...createUnits({ ...DEFAULT_UNIT_PREFERENCES, ...preferences }), setPreferences }),
+    [preferences, setPreferences],
+  )
+  return <UnitsContext.Provider value={value}>{children}</UnitsContext.Provider>
+}
+
+// Falls back to kg outside a UnitsProvider
+export function useUnits(): UnitsContextValue {
+  const context = useContext(UnitsContext)
+  return useMemo(() => context ?? { ...createUnits(DEFAULT_UNIT_PREFERENCES), setPreferences: () => {} }, [context])
+}
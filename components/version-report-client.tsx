@@ -0,0 +1,290 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { ArrowLeft, Download } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { buildVersionReport, pairsToCsv, type DeltaBin, type ReportResult } from "@/lib/version-report"
+import { downloadFile } from "@/lib/download"
+import type { DataProblem } from "@/lib/domain"
+import { DataProblems } from "@/components/data-problems"
+import { useDataProblems } from "@/hooks/use-data-problems"
+
+const selectClass = "h-9 rounded-md border bg-transparent px-2 text-sm"
+
+const signed = (value: number, digits: number) => `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`
+
+// The part of recharts' tooltip props this renderer reads
+type DeltaTooltipProps = { active?: boolean; payload?: { payload: DeltaBin }[] }
+
+const DeltaTooltip = ({ active, payload }: DeltaTooltipProps) => {
+  if (!active || !payload || payload.length === 0) return null
+  const bin = payload[0].payload
+  return (
+    <div className="rounded-lg border bg-background p-3 text-sm shadow-lg">
+      <p className="font-medium">
+        {signed(bin.start, 3)} to {signed(bin.end, 3)} kg
+      </p>
+      <p className="text-muted-foreground">{bin.count} events</p>
+    </div>
+  )
+}
+
+async function fetchReport<T>(query = ""): Promise<T> {
+  const response = await fetch(`/api/reports/versions${query}`)
+  const result = await response.json()
+  if (!response.ok) throw new Error(result.error?.message || "Failed to load results")
+  return result as T
+}
+
+export function VersionReportClient() {
+  const [versions, setVersions] = useState<string[]>([])
+  const [results, setResults] = useState<ReportResult[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [baseVersion, setBaseVersion] = useState("")
+  const [candidateVersion, setCandidateVersion] = useState("")
+  const { problems, reportProblems } = useDataProblems()
+
+  useEffect(() => {
+    async function run() {
+      try {
+        const { versions: list } = await fetchReport<{ versions: string[] }>()
+        setVersions(list)
+        setBaseVersion(list[Math.max(0, list.length - 2)] ?? "")
+        setCandidateVersion(list[list.length - 1] ?? "")
+        if (list.length === 0) setLoading(false)
+      } catch (err) {
+        console.error("[v0] Error fetching algorithm versions:", err)
+        setError(err instanceof Error ? err.message : "Failed to load results")
+        setLoading(false)
+      }
+    }
+
+    run()
+  }, [])
+
+  // Only the two selected versions are loaded, paged past the 1000-row response cap by the API
+  useEffect(() => {
+    if (!baseVersion || !candidateVersion) return
+    let cancelled = false
+    async function run() {
+      setLoading(true)
+      try {
+        const query = new URLSearchParams({ base: baseVersion, candidate: candidateVersion })
+        const result = await fetchReport<{ results: ReportResult[]; problems: DataProblem[] }>(`?${query}`)
+        if (cancelled) return
+        reportProblems(result.problems)
+        setResults(result.results)
+      } catch (err) {
+        if (cancelled) return
+        console.error("[v0] Error fetching weight_event_results:", err)
+        setError(err instanceof Error ? err.message : "Failed to load results")
+      }
+      setLoading(false)
+    }
+
+    run()
+    return () => {
+      cancelled = true
+    }
+  }, [baseVersion, candidateVersion, reportProblems])
+
+  const report = useMemo(() => {
+    if (!baseVersion || !candidateVersion) return null
+    return buildVersionReport(results, baseVersion, candidateVersion)
+  }, [results, baseVersion, candidateVersion])
+
+  const handleExport = () => {
+    if (!report) return
+    downloadFile(`versions-${baseVersion}-vs-${candidateVersion}.csv`, pairsToCsv(report.pairs), "text/csv")
+  }
+
+  // Switching versions keeps the previous report on screen until the new results arrive
+  if (loading && results.length === 0) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <Spinner className="h-8 w-8" />
+          <p className="text-sm text-muted-foreground">Loading results...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Card className="w-full max-w-md border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">Error Loading Results</CardTitle>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1">
+              <Link href="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Dashboard
+              </Link>
+              <h1 className="mt-2 font-sans text-3xl font-bold tracking-tight">Algorithm Version Comparison</h1>
+              <p className="mt-2 text-muted-foreground">
+                Pairs the latest result of each version for every event across {results.length} stored results of
+                the two versions
+              </p>
+            </div>
+            <Button variant="outline" className="shrink-0 bg-transparent" onClick={handleExport} disabled={!report}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+          <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Base:</span>
+            <select className={selectClass} value={baseVersion} onChange={(e) => setBaseVersion(e.target.value)}>
+              {versions.map((v) => (
+                <option key={v} value={v}>
+                  {v}
+                </option>
+              ))}
+            </select>
+            <span className="text-muted-foreground">Candidate:</span>
+            <select
+              className={selectClass}
+              value={candidateVersion}
+              onChange={(e) => setCandidateVersion(e.target.value)}
+            >
+              {versions.map((v) => (
+                <option key={v} value={v}>
+                  {v}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-8">
+        <DataProblems problems={problems} />
+        {!report || report.pairs.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>No Paired Events</CardTitle>
+              <CardDescription>
+                No event has results from both {baseVersion || "—"} and {candidateVersion || "—"}.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Paired events</CardDescription>
+                  <CardTitle className="text-2xl">{report.pairs.length}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  {report.baseOnly} base only · {report.candidateOnly} candidate only
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Weight delta (mean / median)</CardDescription>
+                  <CardTitle className="text-2xl">{signed(report.meanWeightDelta, 3)} kg</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  median {signed(report.medianWeightDelta, 3)} kg · mean |Δ| {report.meanAbsWeightDelta.toFixed(3)} kg
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Quality / uncertainty change</CardDescription>
+                  <CardTitle className="text-2xl">{signed(report.meanQualityDelta * 100, 1)}%</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  uncertainty {signed(report.meanUncertaintyDelta, 4)} kg on average
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Consensus mode changed</CardDescription>
+                  <CardTitle className="text-2xl">{(report.consensusModeChangeRate * 100).toFixed(1)}%</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  {report.pairs.filter((p) => p.consensus_mode_changed).length} of {report.pairs.length} events
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-sans text-lg font-semibold tracking-tight">
+                  Distribution of raw_stable_weight_kg deltas
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={report.deltaHistogram} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="center" className="text-xs" tickFormatter={(v) => Number(v).toFixed(3)} />
+                    <YAxis className="text-xs" allowDecimals={false} />
+                    <Tooltip content={DeltaTooltip} />
+                    <Bar dataKey="count" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-sans text-lg font-semibold tracking-tight">Largest disagreements</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-muted-foreground">
+                      <th className="py-2 pr-3 text-left font-medium">Event</th>
+                      <th className="py-2 pr-3 text-right font-medium">{baseVersion}</th>
+                      <th className="py-2 pr-3 text-right font-medium">{candidateVersion}</th>
+                      <th className="py-2 pr-3 text-right font-medium">Δ weight</th>
+                      <th className="py-2 pr-3 text-right font-medium">Δ quality</th>
+                      <th className="py-2 text-left font-medium">Consensus mode</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.largestDisagreements.map((p) => (
+                      <tr key={p.event_id} className="border-b last:border-0">
+                        <td className="py-1.5 pr-3 font-mono text-xs">{p.event_id}</td>
+                        <td className="py-1.5 pr-3 text-right font-mono">{p.base.raw_stable_weight_kg.toFixed(3)}</td>
+                        <td className="py-1.5 pr-3 text-right font-mono">
+                          {p.candidate.raw_stable_weight_kg.toFixed(3)}
+                        </td>
+                        <td className="py-1.5 pr-3 text-right font-mono">{signed(p.weight_delta_kg, 3)}</td>
+                        <td className="py-1.5 pr-3 text-right font-mono">{signed(p.quality_delta * 100, 1)}%</td>
+                        <td
+                          className={`py-1.5 ${p.consensus_mode_changed ? "text-amber-700" : "text-muted-foreground"}`}
+                        >
+                          {p.base.consensus_mode ?? "—"} → {p.candidate.consensus_mode ?? "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
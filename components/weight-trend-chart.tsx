@@ -3,36 +3,95 @@
 import { useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts"
+import {
+  Area,
+  ComposedChart,
+  ErrorBar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+} from "recharts"
+import { DateRangePicker } from "@/components/date-range-picker"
+import { useUnits } from "@/components/units-provider"
+import { SMOOTHING_OVERLAYS, rateOfChange, type SmoothingId } from "@/lib/trend-smoothing"
+import { RANGE_PRESETS, rangeBounds, toDay, type TrendRange } from "@/lib/view-state"
+import { IMPORT_FORMATS } from "@/lib/importers"
 
 type TrendDataPoint = {
   timestamp: number
   date: string
   weight: number
+  // Uncalibrated weight, when `weight` has a calibration applied
+  rawWeight?: number
   uncertainty: number
   quality: number
+  // Import format, for weigh-ins imported from another app
+  source?: string
 }
 
+type UncertaintyDisplay = "off" | "bars" | "band"
+
+// Plotted values (plot, band, error and overlays) are in display units; the rest stay in kg
+type ChartPoint = TrendDataPoint &
+  Partial<Record<SmoothingId, number>> & { plot: number; band: [number, number]; error: number }
+
 type WeightTrendChartProps = {
   data: TrendDataPoint[]
+  filterLabel?: string
+  color?: string
+  goalKg?: number
+  range: TrendRange
+  onRangeChange: (range: TrendRange) => void
+  smoothing: SmoothingId[]
+  onSmoothingChange: (smoothing: SmoothingId[]) => void
+  morningOnly: boolean
+  onMorningOnlyChange: (morningOnly: boolean) => void
 }
 
-export function WeightTrendChart({ data }: WeightTrendChartProps) {
-  const [dateRange, setDateRange] = useState<{ start: number | null; end: number | null }>({
-    start: null,
-    end: null,
-  })
+export function WeightTrendChart({
+  data,
+  filterLabel,
+  color = "#3b82f6",
+  goalKg,
+  range,
+  onRangeChange,
+  smoothing,
+  onSmoothingChange,
+  morningOnly,
+  onMorningOnlyChange,
+}: WeightTrendChartProps) {
+  const units = useUnits()
+  const [uncertaintyDisplay, setUncertaintyDisplay] = useState<UncertaintyDisplay>("off")
+  // Dates under the pointer while drag-selecting a range on the chart
+  const [drag, setDrag] = useState<{ start: string; end: string } | null>(null)
 
-  const filteredData = useMemo(() => {
-    if (!dateRange.start && !dateRange.end) return data
+  // Smoothing runs over all points so averages at the start of a range still have their history
+  const chartData = useMemo(() => {
+    const rows: ChartPoint[] = data.map((point) => ({
+      ...point,
+      plot: units.toPlot(point.weight),
+      band: [units.toPlot(point.weight - point.uncertainty), units.toPlot(point.weight + point.uncertainty)],
+      error: units.toPlot(point.uncertainty),
+    }))
+    for (const overlay of SMOOTHING_OVERLAYS) {
+      if (!smoothing.includes(overlay.id)) continue
+      overlay.compute(data).forEach((value, i) => {
+        rows[i][overlay.id] = units.toPlot(value)
+      })
+    }
+    return rows
+  }, [data, smoothing, units])
 
-    return data.filter((point) => {
-      const timestamp = new Date(point.date).getTime()
-      if (dateRange.start && timestamp < dateRange.start) return false
-      if (dateRange.end && timestamp > dateRange.end) return false
-      return true
-    })
-  }, [data, dateRange])
+  const filteredData = useMemo(() => {
+    const bounds = rangeBounds(range)
+    if (!bounds) return chartData
+    return chartData.filter((point) => point.timestamp >= bounds.start && point.timestamp <= bounds.end)
+  }, [chartData, range])
 
   const stats = useMemo(() => {
     if (filteredData.length === 0) return null
@@ -42,21 +101,33 @@ export function WeightTrendChart({ data }: WeightTrendChartProps) {
     const max = Math.max(...weights)
     const avg = weights.reduce((sum, w) => sum + w, 0) / weights.length
 
-    return { min, max, avg, count: filteredData.length }
+    return { min, max, avg, count: filteredData.length, rate: rateOfChange(filteredData) }
   }, [filteredData])
 
-  const setPresetRange = (days: number | null) => {
-    if (days === null) {
-      // All time
-      setDateRange({ start: null, end: null })
-    } else {
-      const end = Date.now()
-      const start = end - days * 24 * 60 * 60 * 1000
-      setDateRange({ start, end })
+  const importedCount = useMemo(() => filteredData.filter((point) => point.source).length, [filteredData])
+
+  // Imported weigh-ins are drawn hollow
+  const renderDot = ({ cx, cy, index, payload }: { cx?: number; cy?: number; index?: number; payload?: ChartPoint }) =>
+    payload?.source ? (
+      <circle key={index} cx={cx} cy={cy} r={3.5} fill="#fff" stroke={color} strokeWidth={1.5} />
+    ) : (
+      <circle key={index} cx={cx} cy={cy} r={4} fill={color} stroke="#fff" strokeWidth={2} />
+    )
+
+  const toggleOverlay = (id: SmoothingId) => {
+    onSmoothingChange(smoothing.includes(id) ? smoothing.filter((s) => s !== id) : [...smoothing, id])
+  }
+
+  // A drag selects the whole days it touches; a plain click leaves the range alone
+  const finishDrag = () => {
+    if (drag && drag.start !== drag.end) {
+      const [from, to] = [new Date(drag.start).getTime(), new Date(drag.end).getTime()].sort((a, b) => a - b)
+      onRangeChange({ kind: "custom", from: toDay(from), to: toDay(to) })
     }
+    setDrag(null)
   }
 
-  if (data.length === 0) {
+  if (data.length === 0 && !morningOnly) {
     return null
   }
 
@@ -68,23 +139,40 @@ export function WeightTrendChart({ data }: WeightTrendChartProps) {
             <div className="space-y-1">
               <CardTitle className="font-sans text-lg font-semibold tracking-tight">Algorithm Weight Trend</CardTitle>
               <p className="text-sm text-muted-foreground">
-                Tracking {stats?.count} measurements over time (weights &gt; 50 kg)
+                Tracking {stats?.count ?? 0} measurements over time{filterLabel && ` (${filterLabel})`}
               </p>
+              {importedCount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {importedCount} imported from other apps, shown as hollow points
+                </p>
+              )}
             </div>
             {stats && (
               <div className="flex items-center gap-4 text-sm">
                 <div className="flex items-center gap-1.5">
                   <span className="text-muted-foreground">Min:</span>
-                  <span className="font-medium">{stats.min.toFixed(2)} kg</span>
+                  <span className="font-medium">{units.format(stats.min)}</span>
                 </div>
                 <div className="flex items-center gap-1.5">
                   <span className="text-muted-foreground">Max:</span>
-                  <span className="font-medium">{stats.max.toFixed(2)} kg</span>
+                  <span className="font-medium">{units.format(stats.max)}</span>
                 </div>
                 <div className="flex items-center gap-1.5">
                   <span className="text-muted-foreground">Avg:</span>
-                  <span className="font-medium">{stats.avg.toFixed(2)} kg</span>
+                  <span className="font-medium">{units.format(stats.avg)}</span>
                 </div>
+                {stats.rate && (
+                  <div
+                    className="flex items-center gap-1.5"
+                    title="Uncertainty-weighted linear fit over the selected range"
+                  >
+                    <span className="text-muted-foreground">Rate:</span>
+                    <span className="font-medium">
+                      {units.format(stats.rate.kgPerWeek, { signed: true, bare: true })} ±{" "}
+                      {units.format(stats.rate.stdErrKgPerWeek, { plain: true })}/week
+                    </span>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -92,57 +180,77 @@ export function WeightTrendChart({ data }: WeightTrendChartProps) {
           <div className="flex items-center gap-2 flex-wrap">
             <span className="text-sm text-muted-foreground">Time range:</span>
             <Button
-              variant={!dateRange.start && !dateRange.end ? "default" : "outline"}
+              variant={range.kind === "all" ? "default" : "outline"}
               size="sm"
-              onClick={() => setPresetRange(null)}
+              onClick={() => onRangeChange({ kind: "all" })}
             >
               All time
             </Button>
+            {RANGE_PRESETS.map((days) => (
+              <Button
+                key={days}
+                variant={range.kind === "preset" && range.days === days ? "default" : "outline"}
+                size="sm"
+                onClick={() => onRangeChange({ kind: "preset", days })}
+              >
+                Last {days} days
+              </Button>
+            ))}
+            <DateRangePicker
+              value={range.kind === "custom" ? range : null}
+              onChange={(custom) => onRangeChange({ kind: "custom", ...custom })}
+              active={range.kind === "custom"}
+            />
+            <span className="text-xs text-muted-foreground">or drag across the chart</span>
             <Button
-              variant={
-                dateRange.start && dateRange.end && dateRange.end - dateRange.start <= 7 * 24 * 60 * 60 * 1000
-                  ? "default"
-                  : "outline"
-              }
-              size="sm"
-              onClick={() => setPresetRange(7)}
-            >
-              Last 7 days
-            </Button>
-            <Button
-              variant={
-                dateRange.start &&
-                dateRange.end &&
-                dateRange.end - dateRange.start <= 30 * 24 * 60 * 60 * 1000 &&
-                dateRange.end - dateRange.start > 7 * 24 * 60 * 60 * 1000
-                  ? "default"
-                  : "outline"
-              }
-              size="sm"
-              onClick={() => setPresetRange(30)}
-            >
-              Last 30 days
-            </Button>
-            <Button
-              variant={
-                dateRange.start &&
-                dateRange.end &&
-                dateRange.end - dateRange.start <= 90 * 24 * 60 * 60 * 1000 &&
-                dateRange.end - dateRange.start > 30 * 24 * 60 * 60 * 1000
-                  ? "default"
-                  : "outline"
-              }
+              variant={morningOnly ? "default" : "outline"}
               size="sm"
-              onClick={() => setPresetRange(90)}
+              className="ml-auto"
+              onClick={() => onMorningOnlyChange(!morningOnly)}
+              title="Only weigh-ins in the morning bucket, for a consistent daily basis"
             >
-              Last 90 days
+              Morning weigh-ins only
             </Button>
           </div>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm text-muted-foreground">Smoothing:</span>
+            {SMOOTHING_OVERLAYS.map((overlay) => (
+              <Button
+                key={overlay.id}
+                variant={smoothing.includes(overlay.id) ? "default" : "outline"}
+                size="sm"
+                onClick={() => toggleOverlay(overlay.id)}
+              >
+                <span className="mr-1.5 h-2 w-2 rounded-full" style={{ backgroundColor: overlay.color }} />
+                {overlay.label}
+              </Button>
+            ))}
+            <span className="ml-2 text-sm text-muted-foreground">Uncertainty:</span>
+            {(["off", "bars", "band"] as const).map((mode) => (
+              <Button
+                key={mode}
+                variant={uncertaintyDisplay === mode ? "default" : "outline"}
+                size="sm"
+                onClick={() => setUncertaintyDisplay(mode)}
+              >
+                {mode === "off" ? "Off" : mode === "bars" ? "Error bars" : "Band"}
+              </Button>
+            ))}
+          </div>
         </div>
       </CardHeader>
       <CardContent>
         <ResponsiveContainer width="100%" height={300}>
-          <LineChart data={filteredData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+          <ComposedChart
+            data={filteredData}
+            margin={{ top: 5, right: 20, left: 10, bottom: 5 }}
+            onMouseDown={(e) => e?.activeLabel && setDrag({ start: e.activeLabel, end: e.activeLabel })}
+            onMouseMove={(e) => drag && e?.activeLabel && setDrag({ ...drag, end: e.activeLabel })}
+            onMouseUp={finishDrag}
+            onMouseLeave={() => setDrag(null)}
+            style={{ userSelect: "none" }}
+          >
             <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
             <XAxis
               dataKey="date"
@@ -157,14 +265,19 @@ export function WeightTrendChart({ data }: WeightTrendChartProps) {
               className="text-xs"
               tick={{ fill: "hsl(var(--muted-foreground))" }}
               domain={["dataMin - 1", "dataMax + 1"]}
-              label={{ value: "Weight (kg)", angle: -90, position: "insideLeft", style: { textAnchor: "middle" } }}
-              tickFormatter={(value) => value.toFixed(3)}
+              label={{
+                value: `Weight (${units.label})`,
+                angle: -90,
+                position: "insideLeft",
+                style: { textAnchor: "middle" },
+              }}
+              tickFormatter={(value) => units.formatTick(value)}
             />
             <Tooltip
               content={({ active, payload }) => {
                 if (!active || !payload || payload.length === 0) return null
 
-                const data = payload[0].payload as TrendDataPoint
+                const data = payload[0].payload as ChartPoint
                 return (
                   <div className="rounded-lg border bg-background p-3 shadow-lg">
                     <div className="space-y-1.5">
@@ -179,33 +292,106 @@ export function WeightTrendChart({ data }: WeightTrendChartProps) {
                       <div className="space-y-1 text-sm">
                         <div className="flex items-center justify-between gap-4">
                           <span className="text-muted-foreground">Weight:</span>
-                          <span className="font-medium">{data.weight.toFixed(3)} kg</span>
+                          <span className="font-medium">{units.format(data.weight, { extraDigits: 1 })}</span>
                         </div>
+                        {data.rawWeight !== undefined && data.rawWeight !== data.weight && (
+                          <div className="flex items-center justify-between gap-4">
+                            <span className="text-muted-foreground">Raw:</span>
+                            <span className="font-medium">{units.format(data.rawWeight, { extraDigits: 1 })}</span>
+                          </div>
+                        )}
                         <div className="flex items-center justify-between gap-4">
                           <span className="text-muted-foreground">Uncertainty:</span>
-                          <span className="font-medium">±{data.uncertainty.toFixed(3)} kg</span>
-                        </div>
-                        <div className="flex items-center justify-between gap-4">
-                          <span className="text-muted-foreground">Quality:</span>
-                          <span className="font-medium">{(data.quality * 100).toFixed(1)}%</span>
+                          <span className="font-medium">
+                            ±{units.format(data.uncertainty, { extraDigits: 1, plain: true })}
+                          </span>
                         </div>
+                        {data.source ? (
+                          <div className="flex items-center justify-between gap-4">
+                            <span className="text-muted-foreground">Imported:</span>
+                            <span className="font-medium">
+                              {IMPORT_FORMATS.find((f) => f.format === data.source)?.label ?? data.source}
+                            </span>
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-between gap-4">
+                            <span className="text-muted-foreground">Quality:</span>
+                            <span className="font-medium">{(data.quality * 100).toFixed(1)}%</span>
+                          </div>
+                        )}
+                        {SMOOTHING_OVERLAYS.map(
+                          (overlay) =>
+                            data[overlay.id] !== undefined && (
+                              <div key={overlay.id} className="flex items-center justify-between gap-4">
+                                <span className="text-muted-foreground">{overlay.label}:</span>
+                                <span className="font-medium">
+                                  {units.format(units.fromPlot(data[overlay.id]!), { extraDigits: 1 })}
+                                </span>
+                              </div>
+                            ),
+                        )}
                       </div>
                     </div>
                   </div>
                 )
               }}
             />
-            {stats && <ReferenceLine y={stats.avg} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />}
+            {stats && (
+              <ReferenceLine y={units.toPlot(stats.avg)} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+            )}
+            {drag && drag.start !== drag.end && (
+              <ReferenceArea x1={drag.start} x2={drag.end} fill={color} fillOpacity={0.1} />
+            )}
+            {goalKg !== undefined && (
+              <ReferenceLine
+                y={units.toPlot(goalKg)}
+                stroke="#10b981"
+                strokeDasharray="6 3"
+                ifOverflow="extendDomain"
+                label={{
+                  value: `Goal ${units.format(goalKg, { digits: 1 })}`,
+                  position: "insideBottomRight",
+                  fontSize: 12,
+                }}
+              />
+            )}
+            {uncertaintyDisplay === "band" && (
+              <Area
+                type="monotone"
+                dataKey="band"
+                stroke="none"
+                fill={color}
+                fillOpacity={0.15}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            )}
             <Line
               type="monotone"
-              dataKey="weight"
-              stroke="#3b82f6"
+              dataKey="plot"
+              stroke={color}
               strokeWidth={2}
-              dot={{ r: 4, fill: "#3b82f6", stroke: "#fff", strokeWidth: 2 }}
-              activeDot={{ r: 6, stroke: "#3b82f6", fill: "#3b82f6" }}
+              dot={renderDot}
+              activeDot={{ r: 6, stroke: color, fill: color }}
               isAnimationActive={false}
-            />
-          </LineChart>
+            >
+              {uncertaintyDisplay === "bars" && (
+                <ErrorBar dataKey="error" width={4} stroke={color} strokeOpacity={0.6} direction="y" />
+              )}
+            </Line>
+            {SMOOTHING_OVERLAYS.filter((overlay) => smoothing.includes(overlay.id)).map((overlay) => (
+              <Line
+                key={overlay.id}
+                type="monotone"
+                dataKey={overlay.id}
+                stroke={overlay.color}
+                strokeWidth={2}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
         </ResponsiveContainer>
       </CardContent>
     </Card>
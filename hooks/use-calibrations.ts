@@ -0,0 +1,49 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import { useStoredState } from "@/hooks/use-stored-state"
+import {
+  calibrationsByScale,
+  measureReferences,
+  type ReferenceMeasurement,
+  type ReferencePoint,
+} from "@/lib/calibration"
+
+const POINTS_KEY = "autoscale.referencePoints"
+const APPLY_KEY = "autoscale.applyCalibration"
+
+// measurements holds the current result of each event, keyed by event id
+export function useCalibrations(measurements: Map<string, ReferenceMeasurement>) {
+  const [points, setPoints] = useStoredState<ReferencePoint[]>(POINTS_KEY, [])
+  const [calibrationEnabled, setCalibrationEnabled] = useStoredState(APPLY_KEY, false)
+
+  const measuredPoints = useMemo(() => measureReferences(points, measurements), [points, measurements])
+  const calibrations = useMemo(() => calibrationsByScale(measuredPoints), [measuredPoints])
+
+  // Re-declaring an event replaces its earlier reference value
+  const recordReference = useCallback((point: Pick<ReferencePoint, "event_id" | "reference_kg">) => {
+    setPoints((prev) => [
+      ...prev.filter((p) => p.event_id !== point.event_id),
+      {
+        id: crypto.randomUUID(),
+        event_id: point.event_id,
+        reference_kg: point.reference_kg,
+        recorded_at: new Date().toISOString(),
+      },
+    ])
+  }, [])
+
+  const removeReference = useCallback((id: string) => {
+    setPoints((prev) => prev.filter((p) => p.id !== id))
+  }, [])
+
+  return {
+    points,
+    measuredPoints,
+    calibrations,
+    recordReference,
+    removeReference,
+    calibrationEnabled,
+    setCalibrationEnabled,
+  }
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { problemKey, type DataProblem } from "@/lib/domain"
+
+// Collects validation problems reported by any fetch path, without duplicates
+export function useDataProblems() {
+  const [problems, setProblems] = useState<DataProblem[]>([])
+
+  const reportProblems = useCallback((incoming: DataProblem[] | undefined) => {
+    if (!incoming || incoming.length === 0) return
+    console.warn("[v0] Skipped invalid rows:", incoming)
+    setProblems((prev) => {
+      const known = new Set(prev.map(problemKey))
+      const added = incoming.filter((problem) => {
+        const key = problemKey(problem)
+        if (known.has(key)) return false
+        known.add(key)
+        return true
+      })
+      return added.length > 0 ? [...prev, ...added] : prev
+    })
+  }, [])
+
+  const clearProblems = useCallback(() => setProblems([]), [])
+
+  return { problems, reportProblems, clearProblems }
+}
@@ -0,0 +1,21 @@
+"use client"
+
+import { useCallback } from "react"
+import { useStoredState } from "@/hooks/use-stored-state"
+import type { Goal, Goals } from "@/lib/goals"
+
+const GOALS_KEY = "autoscale.goals"
+
+export function useGoals() {
+  const [goals, setGoals] = useStoredState<Goals>(GOALS_KEY, {})
+
+  const setGoal = useCallback((key: string, goal: Goal) => {
+    setGoals((prev) => ({ ...prev, [key]: goal }))
+  }, [])
+
+  const clearGoal = useCallback((key: string) => {
+    setGoals((prev) => Object.fromEntries(Object.entries(prev).filter(([k]) => k !== key)))
+  }, [])
+
+  return { goals, setGoal, clearGoal }
+}
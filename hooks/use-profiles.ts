@@ -0,0 +1,41 @@
+"use client"
+
+import { useCallback } from "react"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { PROFILE_COLORS, type Profile, type ProfileOverrides } from "@/lib/profiles"
+
+const PROFILES_KEY = "autoscale.profiles"
+const OVERRIDES_KEY = "autoscale.profileOverrides"
+
+export function useProfiles() {
+  const [profiles, setProfiles] = useStoredState<Profile[]>(PROFILES_KEY, [])
+  const [overrides, setOverrides] = useStoredState<ProfileOverrides>(OVERRIDES_KEY, {})
+
+  const addProfile = useCallback((profile: Omit<Profile, "id" | "color">) => {
+    setProfiles((prev) => [
+      ...prev,
+      { ...profile, id: crypto.randomUUID(), color: PROFILE_COLORS[prev.length % PROFILE_COLORS.length] },
+    ])
+  }, [])
+
+  const updateProfile = useCallback((id: string, changes: Partial<Omit<Profile, "id">>) => {
+    setProfiles((prev) => prev.map((p) => (p.id === id ? { ...p, ...changes } : p)))
+  }, [])
+
+  const removeProfile = useCallback((id: string) => {
+    setProfiles((prev) => prev.filter((p) => p.id !== id))
+    setOverrides((prev) => Object.fromEntries(Object.entries(prev).filter(([, profileId]) => profileId !== id)))
+  }, [])
+
+  // undefined clears the override and returns the event to automatic assignment
+  const assignEvent = useCallback((eventId: string, profileId: string | null | undefined) => {
+    setOverrides((prev) => {
+      const next = { ...prev }
+      if (profileId === undefined) delete next[eventId]
+      else next[eventId] = profileId
+      return next
+    })
+  }, [])
+
+  return { profiles, overrides, addProfile, updateProfile, removeProfile, assignEvent }
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { type Dispatch, type SetStateAction, useEffect, useState } from "react"
+
+function readStorage<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback
+  try {
+    const raw = window.localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : fallback
+  } catch (err) {
+    console.warn(`[v0] Failed to read ${key} from localStorage:`, err)
+    return fallback
+  }
+}
+
+function writeStorage(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value))
+  } catch (err) {
+    console.warn(`[v0] Failed to write ${key} to localStorage:`, err)
+  }
+}
+
+/**
+ * useState persisted to localStorage under `key`. The stored value is read
+ * after mount so server and first client render agree on `fallback`.
+ */
+export function useStoredState<T>(key: string, fallback: T): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(fallback)
+  const [hydrated, setHydrated] = useState(false)
+
+  useEffect(() => {
+    setValue(readStorage(key, fallback))
+    setHydrated(true)
+    // fallback is only the initial value
+  }, [key])
+
+  useEffect(() => {
+    if (hydrated) writeStorage(key, value)
+  }, [key, value, hydrated])
+
+  return [value, setValue]
+}
@@ -0,0 +1,11 @@
+"use client"
+
+import { useStoredState } from "@/hooks/use-stored-state"
+import { DEFAULT_TIME_OF_DAY_BUCKETS, type TimeOfDayBuckets } from "@/lib/time-of-day"
+
+const BUCKETS_KEY = "autoscale.timeOfDayBuckets"
+
+export function useTimeOfDayBuckets() {
+  const [buckets, setBuckets] = useStoredState<TimeOfDayBuckets>(BUCKETS_KEY, DEFAULT_TIME_OF_DAY_BUCKETS)
+  return { buckets, setBuckets, resetBuckets: () => setBuckets(DEFAULT_TIME_OF_DAY_BUCKETS) }
+}
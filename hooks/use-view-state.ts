@@ -0,0 +1,27 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { parseViewState, serializeViewState, type ViewState } from "@/lib/view-state"
+
+// View state read from and written to the URL query
+export function useViewState(): [ViewState, (changes: Partial<ViewState>) => void] {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+
+  const view = useMemo(() => parseViewState(new URLSearchParams(searchParams.toString())), [searchParams])
+
+  // replace rather than push, so tweaking the view does not flood the history
+  const updateView = useCallback(
+    (changes: Partial<ViewState>) => {
+      const query = serializeViewState({ ...view, ...changes }, new URLSearchParams(searchParams.toString()))
+      // Commas are safe in a query value and keep ?smooth=ma7,ewma readable
+      const search = query.toString().replace(/%2C/g, ",")
+      router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false })
+    },
+    [view, searchParams, router, pathname],
+  )
+
+  return [view, updateView]
+}
@@ -0,0 +1,21 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { ChangeFeed, RealtimeStatus, WeightChange } from "@/lib/realtime"
+
+// Subscribes to a change feed for the lifetime of the component and reports its connection state
+export function useWeightChanges(feed: ChangeFeed | null, onChange: (change: WeightChange) => void): RealtimeStatus {
+  const [status, setStatus] = useState<RealtimeStatus>(feed ? "connecting" : "offline")
+  const handler = useRef(onChange)
+  handler.current = onChange
+
+  useEffect(() => {
+    if (!feed) {
+      setStatus("offline")
+      return
+    }
+    return feed.subscribe((change) => handler.current(change), setStatus)
+  }, [feed])
+
+  return status
+}
@@ -0,0 +1,124 @@
+// Per-scale linear calibration from weigh-ins of known reference masses.
+// A calibration maps a measured weight to gain * measured + offset.
+
+// Only the declaration is stored. The scale and measured weight are read from
+// the event's current result when fitting, so recalculating a reference
+// weigh-in also updates the calibration.
+export type ReferencePoint = {
+  id: string
+  event_id: string
+  reference_kg: number
+  recorded_at: string
+}
+
+// Current result of a reference weigh-in
+export type ReferenceMeasurement = {
+  scale_id: string
+  measured_kg: number
+}
+
+export type MeasuredReference = ReferencePoint & ReferenceMeasurement
+
+// Keyed by event id, from the latest results the trend already loads
+export function measurementsByEvent(
+  results: { event_id: string; scale_id: string; raw_stable_weight_kg: number }[],
+): Map<string, ReferenceMeasurement> {
+  return new Map(
+    results.map((r) => [r.event_id, { scale_id: r.scale_id, measured_kg: r.raw_stable_weight_kg }] as const),
+  )
+}
+
+// Joins reference points to their events' current results; events without a result are left out
+export function measureReferences(
+  points: ReferencePoint[],
+  measurements: Map<string, ReferenceMeasurement>,
+): MeasuredReference[] {
+  return points.flatMap((point) => {
+    const measurement = measurements.get(point.event_id)
+    return measurement ? [{ ...point, ...measurement }] : []
+  })
+}
+
+export type Calibration = {
+  scale_id: string
+  gain: number
+  offset_kg: number
+  point_count: number
+  // Standard deviation of reference - corrected over the fitted points
+  residual_std_kg: number
+  // recorded_at of the newest point in the fit
+  fitted_at: string
+}
+
+// Below this spread of measured weights a gain cannot be fitted reliably
+const MIN_GAIN_SPREAD_KG = 1
+
+/**
+ * Least-squares fit of reference against measured weight. With a single
+ * point, or points that are all near the same mass, only an offset is fitted.
+ */
+export function fitCalibration(points: MeasuredReference[]): Calibration | null {
+  if (points.length === 0) return null
+
+  const n = points.length
+  const meanX = points.reduce((sum, p) => sum + p.measured_kg, 0) / n
+  const meanY = points.reduce((sum, p) => sum + p.reference_kg, 0) / n
+  let sxx = 0
+  let sxy = 0
+  for (const p of points) {
+    sxx += (p.measured_kg - meanX) ** 2
+    sxy += (p.measured_kg - meanX) * (p.reference_kg - meanY)
+  }
+
+  const spread = Math.max(...points.map((p) => p.measured_kg)) - Math.min(...points.map((p) => p.measured_kg))
+  const gain = n >= 2 && spread >= MIN_GAIN_SPREAD_KG && sxx > 0 ? sxy / sxx : 1
+  const offset = meanY - gain * meanX
+
+  const residuals = points.map((p) => p.reference_kg - (gain * p.measured_kg + offset))
+  const residualStd = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / n)
+
+  return {
+    scale_id: points[0].scale_id,
+    gain,
+    offset_kg: offset,
+    point_count: n,
+    residual_std_kg: residualStd,
+    fitted_at: points.reduce((latest, p) => (p.recorded_at > latest ? p.recorded_at : latest), points[0].recorded_at),
+  }
+}
+
+export function applyCalibration(kg: number, calibration: Calibration | null | undefined): number {
+  return calibration ? calibration.gain * kg + calibration.offset_kg : kg
+}
+
+const byRecordedAt = (a: ReferencePoint, b: ReferencePoint) => a.recorded_at.localeCompare(b.recorded_at)
+
+// Current calibration of every scale with at least one reference point
+export function calibrationsByScale(points: MeasuredReference[]): Map<string, Calibration> {
+  const byScale = new Map<string, MeasuredReference[]>()
+  for (const point of points) {
+    const list = byScale.get(point.scale_id)
+    if (list) list.push(point)
+    else byScale.set(point.scale_id, [point])
+  }
+
+  const calibrations = new Map<string, Calibration>()
+  for (const [scaleId, list] of byScale) {
+    const fit = fitCalibration(list)
+    if (fit) calibrations.set(scaleId, fit)
+  }
+  return calibrations
+}
+
+/**
+ * A scale's reference points in the order they were recorded, each with the
+ * fit over it and every earlier point, so drift of the correction is visible.
+ */
+export function calibrationHistory(points: MeasuredReference[], scaleId: string) {
+  const ordered = points.filter((p) => p.scale_id === scaleId).sort(byRecordedAt)
+  return ordered.map((point, i) => ({
+    point,
+    error_kg: point.measured_kg - point.reference_kg,
+    fit: fitCalibration(ordered.slice(0, i + 1))!,
+  }))
+}
@@ -0,0 +1,135 @@
+import { z } from "zod"
+
+// Shared shapes of weight_events and weight_event_results rows. Every fetch
+// path parses rows through these schemas; rows that fail are reported as
+// DataProblems and left out instead of reaching a chart as NaN.
+
+// Samples written by older firmware store numbers as strings
+const numeric = z.union([z.number(), z.string().trim().min(1)]).pipe(z.coerce.number().finite())
+
+const finite = z.number().finite()
+
+const timestamp = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid timestamp")
+
+export const DataPointSchema = z.object({
+  t: numeric,
+  kg: numeric,
+})
+
+export const ResultMetadataSchema = z.record(z.string(), z.unknown())
+
+export const WeightEventResultSchema = z.object({
+  id: z.string(),
+  event_id: z.string(),
+  scale_id: z.string(),
+  computed_at: timestamp,
+  algorithm_version: z.string(),
+  mode: z.string(),
+  raw_stable_weight_kg: finite,
+  raw_uncertainty_kg: finite.nonnegative(),
+  raw_quality: finite,
+  window_start_s: finite,
+  window_end_s: finite,
+  duration_s: finite.nonnegative(),
+  mean_slope_kg_per_s: finite,
+  mean_std_kg: finite.nonnegative(),
+  n_points: z.number().int().nonnegative(),
+  consensus_weight_kg: finite.nullable(),
+  consensus_uncertainty_kg: finite.nullable(),
+  consensus_band_kg: finite.nullable(),
+  consensus_mode: z.string().nullable(),
+  consensus_window_start_s: finite.nullable(),
+  consensus_window_end_s: finite.nullable(),
+  consensus_duration_s: finite.nullable(),
+  metadata: ResultMetadataSchema.nullable(),
+})
+
+export const WeightEventSchema = z.object({
+  id: z.string(),
+  started_at: timestamp,
+})
+
+// Summary-only events imported from other apps: a weight, and no samples or results
+export const ImportedEventSchema = WeightEventSchema.extend({
+  source: z.string(),
+  weight_kg: finite,
+})
+
+export type DataPoint = z.infer<typeof DataPointSchema>
+export type ResultMetadata = z.infer<typeof ResultMetadataSchema>
+export type WeightEventResult = z.infer<typeof WeightEventResultSchema>
+export type WeightEvent = z.infer<typeof WeightEventSchema>
+export type ImportedEvent = z.infer<typeof ImportedEventSchema>
+
+export type DataProblem = {
+  table: string
+  // Row id, or the event id for sample problems
+  id: string | null
+  message: string
+}
+
+const rowId = (row: unknown) => {
+  const id = row && typeof row === "object" ? (row as { id?: unknown }).id : undefined
+  return typeof id === "string" || typeof id === "number" ? String(id) : null
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`).join("; ")
+
+export function parseRows<S extends z.ZodTypeAny>(
+  schema: S,
+  rows: unknown[] | null | undefined,
+  table: string,
+): { rows: z.infer<S>[]; problems: DataProblem[] } {
+  const parsed: z.infer<S>[] = []
+  const problems: DataProblem[] = []
+  for (const row of rows ?? []) {
+    const result = schema.safeParse(row)
+    if (result.success) parsed.push(result.data)
+    else problems.push({ table, id: rowId(row), message: describeIssues(result.error) })
+  }
+  return { rows: parsed, problems }
+}
+
+/**
+ * Validates an event's samples column (or rows of a samples table), dropping
+ * invalid points and sorting by time. Invalid points are summarized as a
+ * single problem.
+ */
+export function parseSamples(
+  raw: unknown,
+  eventId: string | null,
+  table = "weight_events",
+): { samples: DataPoint[]; problems: DataProblem[] } {
+  if (raw === null || raw === undefined) return { samples: [], problems: [] }
+  if (!Array.isArray(raw)) {
+    return { samples: [], problems: [{ table, id: eventId, message: "samples: Expected an array" }] }
+  }
+
+  const samples: DataPoint[] = []
+  let firstError: z.ZodError | null = null
+  let invalid = 0
+  for (const point of raw) {
+    const result = DataPointSchema.safeParse(point)
+    if (result.success) {
+      samples.push(result.data)
+    } else {
+      invalid++
+      firstError ??= result.error
+    }
+  }
+  samples.sort((a, b) => a.t - b.t)
+
+  const problems: DataProblem[] = firstError
+    ? [
+        {
+          table,
+          id: eventId,
+          message: `${invalid} of ${raw.length} samples skipped (first: ${describeIssues(firstError)})`,
+        },
+      ]
+    : []
+  return { samples, problems }
+}
+
+export const problemKey = (problem: DataProblem) => `${problem.table}:${problem.id}:${problem.message}`
@@ -0,0 +1,12 @@
+// Triggers a browser download for generated text content
+export function downloadFile(filename: string, content: string | Blob, type = "text/plain") {
+  const blob = content instanceof Blob ? content : new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
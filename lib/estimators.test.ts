@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_ESTIMATOR_ID, getEstimator, listEstimators } from "@/lib/estimators"
+import { generateSyntheticWeighIn } from "@/lib/synthetic"
+
+const points = (...kgs: number[]) => kgs.map((kg, i) => ({ t: i * 40, kg }))
+
+describe("binned mode", () => {
+  const mode = getEstimator(DEFAULT_ESTIMATOR_ID)
+
+  it("ignores an unloaded platform for a whole weigh-in only", () => {
+    const samples = points(0, 0, 0, 0, 72.4, 72.4, 72.4)
+    expect(mode.estimate(samples).kg).toBe(72.4)
+    expect(mode.estimate(samples, "window").kg).toBe(0)
+  })
+
+  it("breaks ties toward the heavier bin except within a group", () => {
+    const samples = points(72.3, 72.3, 72.5, 72.5)
+    expect(mode.estimate(samples).kg).toBe(72.5)
+    expect(mode.estimate(samples, "group").kg).toBe(72.3)
+  })
+})
+
+describe("every estimator", () => {
+  // Standing still for the whole capture, so no estimator has a ramp to exclude
+  const weighIn = generateSyntheticWeighIn({ seed: 7, features: ["sway"] })
+
+  it.each(listEstimators().map((estimator) => [estimator.id, estimator] as const))(
+    "%s lands near the true weight",
+    (_id, estimator) => {
+      const estimate = estimator.estimate(weighIn.samples)
+      expect(estimate.kg).not.toBeNull()
+      expect(Math.abs(estimate.kg! - weighIn.trueKg)).toBeLessThan(0.15)
+      expect(estimate.support).toBeGreaterThan(0)
+    },
+  )
+
+  it.each(listEstimators().map((estimator) => [estimator.id, estimator] as const))(
+    "%s gives no weight for no samples",
+    (_id, estimator) => {
+      expect(estimator.estimate([]).kg).toBeNull()
+    },
+  )
+})
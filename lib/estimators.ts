@@ -0,0 +1,209 @@
+// Weight estimators used by DataChart for the estimate pill, the mode markers
+// and the per-group overlay. Each estimator reduces a slice of samples to a
+// single weight plus a membership test for the samples that support it.
+
+import type { DataPoint } from "@/lib/domain"
+import { computeStableWeight } from "@/lib/stable-weight"
+
+export type WeightEstimate = {
+  kg: number | null
+  support: number
+  isMember: (point: DataPoint) => boolean
+}
+
+// What the samples are: a whole weigh-in (the estimate pill), one of the
+// overlay's groups, or the window around the hovered sample
+export type EstimateScope = "event" | "group" | "window"
+
+export type WeightEstimator = {
+  id: string
+  label: string
+  shortLabel: string
+  decimals: number
+  estimate: (samples: DataPoint[], scope?: EstimateScope) => WeightEstimate
+}
+
+// Samples below this are treated as an empty or barely loaded platform
+export const LOADED_MIN_KG = 9
+
+const EMPTY_ESTIMATE: WeightEstimate = { kg: null, support: 0, isMember: () => false }
+
+const loadedOrAll = (samples: DataPoint[]) => {
+  const loaded = samples.filter((r) => (r.kg ?? 0) >= LOADED_MIN_KG)
+  return loaded.length > 0 ? loaded : samples
+}
+
+const median = (values: number[]) => {
+  const sorted = values.slice().sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+const binKey = (kg: number) => Math.round((kg ?? 0) * 10) / 10
+
+// Kept exactly as DataChart computed it before estimators were pluggable: only
+// the pill skips an unloaded platform, and a tie goes to the heavier bin except
+// in the group overlay, where the first bin to reach the top count wins.
+const binnedMode: WeightEstimator = {
+  id: "binned-mode",
+  label: "0.1 kg binned mode",
+  shortLabel: "mode",
+  decimals: 1,
+  estimate: (samples, scope = "event") => {
+    const bins = new Map<number, number>()
+    for (const r of scope === "event" ? loadedOrAll(samples) : samples) {
+      const key = binKey(r.kg)
+      bins.set(key, (bins.get(key) ?? 0) + 1)
+    }
+    let bestVal: number | null = null
+    let bestCount = 0
+    for (const [val, cnt] of bins.entries()) {
+      if (cnt > bestCount) {
+        bestCount = cnt
+        bestVal = val
+      } else if (scope !== "group" && cnt === bestCount && bestVal !== null && val > bestVal) {
+        bestVal = val
+      }
+    }
+    if (bestVal === null) return EMPTY_ESTIMATE
+    const target = bestVal
+    return { kg: target, support: bestCount, isMember: (p) => binKey(p.kg) === target }
+  },
+}
+
+const plateauMedian: WeightEstimator = {
+  id: "plateau-median",
+  label: "Median of stable plateau",
+  shortLabel: "plateau median",
+  decimals: 2,
+  estimate: (samples) => {
+    if (samples.length === 0) return EMPTY_ESTIMATE
+    const result = computeStableWeight(samples)
+    const startMs = result ? result.window_start_s * 1000 : Number.NEGATIVE_INFINITY
+    const endMs = result ? result.window_end_s * 1000 : Number.POSITIVE_INFINITY
+    const inWindow = (p: DataPoint) => p.t >= startMs && p.t <= endMs
+    const plateau = result ? samples.filter(inWindow) : loadedOrAll(samples)
+    if (plateau.length === 0) return EMPTY_ESTIMATE
+    const members = new Set(plateau.map((p) => p.t))
+    return { kg: median(plateau.map((p) => p.kg)), support: plateau.length, isMember: (p) => members.has(p.t) }
+  },
+}
+
+const TRIM_FRACTION = 0.1
+
+const trimmedMean: WeightEstimator = {
+  id: "trimmed-mean",
+  label: "10% trimmed mean",
+  shortLabel: "trimmed mean",
+  decimals: 2,
+  estimate: (samples) => {
+    const sorted = loadedOrAll(samples)
+      .map((p) => p.kg)
+      .sort((a, b) => a - b)
+    if (sorted.length === 0) return EMPTY_ESTIMATE
+    const cut = Math.floor(sorted.length * TRIM_FRACTION)
+    const kept = sorted.length - 2 * cut > 0 ? sorted.slice(cut, sorted.length - cut) : sorted
+    const lo = kept[0]
+    const hi = kept[kept.length - 1]
+    return {
+      kg: kept.reduce((a, b) => a + b, 0) / kept.length,
+      support: kept.length,
+      isMember: (p) => p.kg >= lo && p.kg <= hi,
+    }
+  },
+}
+
+const KDE_BANDWIDTH_KG = 0.05
+const KDE_GRID_KG = 0.005
+const KDE_MAX_GRID = 4000
+
+const kdePeak: WeightEstimator = {
+  id: "kde-peak",
+  label: "Kernel density peak",
+  shortLabel: "KDE peak",
+  decimals: 2,
+  estimate: (samples) => {
+    const values = loadedOrAll(samples).map((p) => p.kg)
+    if (values.length === 0) return EMPTY_ESTIMATE
+    const min = Math.min(...values) - 3 * KDE_BANDWIDTH_KG
+    const max = Math.max(...values) + 3 * KDE_BANDWIDTH_KG
+    const step = Math.max(KDE_GRID_KG, (max - min) / KDE_MAX_GRID)
+
+    // Pre-bin onto the evaluation grid so the kernel sum is O(grid * kernel width)
+    const size = Math.floor((max - min) / step) + 1
+    const counts = new Float64Array(size)
+    for (const v of values) counts[Math.round((v - min) / step)] += 1
+
+    const reach = Math.ceil((3 * KDE_BANDWIDTH_KG) / step)
+    let bestIdx = 0
+    let bestDensity = -1
+    for (let i = 0; i < size; i++) {
+      let density = 0
+      for (let j = Math.max(0, i - reach); j <= Math.min(size - 1, i + reach); j++) {
+        if (counts[j] === 0) continue
+        const z = ((j - i) * step) / KDE_BANDWIDTH_KG
+        density += counts[j] * Math.exp(-0.5 * z * z)
+      }
+      if (density > bestDensity) {
+        bestDensity = density
+        bestIdx = i
+      }
+    }
+
+    const peak = min + bestIdx * step
+    const isMember = (p: DataPoint) => Math.abs(p.kg - peak) <= KDE_BANDWIDTH_KG
+    return { kg: peak, support: values.filter((v) => Math.abs(v - peak) <= KDE_BANDWIDTH_KG).length, isMember }
+  },
+}
+
+const SLOPE_HALF_WINDOW_MS = 500
+const MAX_PLATEAU_SLOPE_KG_PER_S = 0.05
+
+const slopePlateauMean: WeightEstimator = {
+  id: "slope-plateau-mean",
+  label: "Slope-thresholded plateau mean",
+  shortLabel: "plateau mean",
+  decimals: 2,
+  estimate: (samples) => {
+    const sorted = samples.slice().sort((a, b) => a.t - b.t)
+    const flat: DataPoint[] = []
+    let lo = 0
+    let hi = 0
+    for (const p of sorted) {
+      while (lo < sorted.length && sorted[lo].t < p.t - SLOPE_HALF_WINDOW_MS) lo++
+      while (hi < sorted.length - 1 && sorted[hi + 1].t <= p.t + SLOPE_HALF_WINDOW_MS) hi++
+      const a = sorted[lo]
+      const b = sorted[hi]
+      const dt = (b.t - a.t) / 1000
+      const slope = dt > 0 ? (b.kg - a.kg) / dt : 0
+      if (Math.abs(slope) <= MAX_PLATEAU_SLOPE_KG_PER_S && p.kg >= LOADED_MIN_KG) flat.push(p)
+    }
+    if (flat.length === 0) return EMPTY_ESTIMATE
+    const members = new Set(flat.map((p) => p.t))
+    return {
+      kg: flat.reduce((sum, p) => sum + p.kg, 0) / flat.length,
+      support: flat.length,
+      isMember: (p) => members.has(p.t),
+    }
+  },
+}
+
+const registry = new Map<string, WeightEstimator>()
+
+export function registerEstimator(estimator: WeightEstimator) {
+  registry.set(estimator.id, estimator)
+}
+
+export function listEstimators(): WeightEstimator[] {
+  return Array.from(registry.values())
+}
+
+export const DEFAULT_ESTIMATOR_ID = binnedMode.id
+
+export function getEstimator(id: string): WeightEstimator {
+  return registry.get(id) ?? binnedMode
+}
+
+for (const estimator of [binnedMode, plateauMedian, trimmedMean, kdePeak, slopePlateauMean]) {
+  registerEstimator(estimator)
+}
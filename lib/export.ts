@@ -0,0 +1,80 @@
+import { WeightEventResultSchema, type DataPoint, type WeightEventResult } from "@/lib/domain"
+import { createUnits, DEFAULT_UNIT_PREFERENCES, type WeightUnit } from "@/lib/units"
+
+// Bulk export rows. Events are exported one row each, joined with their
+// latest result; samples are exported in long format, one row per reading.
+// Stored values stay in kg, and another unit is added as an extra column.
+
+export type ExportFormat = "csv" | "jsonl"
+
+export type ExportFile = "events" | "samples"
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; type: string }[] = [
+  { format: "csv", label: "CSV", extension: "csv", type: "text/csv" },
+  { format: "jsonl", label: "JSON Lines", extension: "jsonl", type: "application/x-ndjson" },
+]
+
+export const exportFormat = (format: ExportFormat) => EXPORT_FORMATS.find((f) => f.format === format)!
+
+type Cell = string | number | boolean | null | Record<string, unknown>
+export type ExportRow = Record<string, Cell>
+
+// Result columns follow the schema; its `id` is renamed so it is not mistaken for the event id
+const RESULT_COLUMNS = Object.keys(WeightEventResultSchema.shape).filter((key) => key !== "event_id")
+
+const convertedColumn = (unit: WeightUnit, name: string) => (unit === "kg" ? null : `${name}_${unit}`)
+
+export function eventColumns(unit: WeightUnit = "kg"): string[] {
+  const converted = convertedColumn(unit, "raw_stable_weight")
+  return [
+    "event_id",
+    "started_at",
+    ...RESULT_COLUMNS.map((key) => (key === "id" ? "result_id" : key)),
+    ...(converted ? [converted] : []),
+  ]
+}
+
+export function sampleColumns(unit: WeightUnit = "kg"): string[] {
+  return ["event_id", "t", "kg", ...(unit === "kg" ? [] : [unit])]
+}
+
+export function eventRow(
+  event: { id: string; started_at: string; results?: WeightEventResult },
+  unit: WeightUnit = "kg",
+): ExportRow {
+  const row: ExportRow = { event_id: event.id, started_at: event.started_at }
+  for (const key of RESULT_COLUMNS) {
+    row[key === "id" ? "result_id" : key] = event.results?.[key as keyof WeightEventResult] ?? null
+  }
+  const converted = convertedColumn(unit, "raw_stable_weight")
+  if (converted) {
+    const units = createUnits({ ...DEFAULT_UNIT_PREFERENCES, unit })
+    row[converted] = event.results ? units.toExport(event.results.raw_stable_weight_kg) : null
+  }
+  return row
+}
+
+export function sampleRows(eventId: string, samples: DataPoint[], unit: WeightUnit = "kg"): ExportRow[] {
+  const units = createUnits({ ...DEFAULT_UNIT_PREFERENCES, unit })
+  return samples.map((sample) => ({
+    event_id: eventId,
+    t: sample.t,
+    kg: sample.kg,
+    ...(unit !== "kg" && { [unit]: units.toExport(sample.kg) }),
+  }))
+}
+
+export const csvCell = (value: Cell | undefined) => {
+  if (value === null || value === undefined) return ""
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Header line for a file; JSON Lines has none
+export const encodeHeader = (format: ExportFormat, columns: string[]) =>
+  format === "csv" ? `${columns.join(",")}\n` : ""
+
+export const encodeRow = (format: ExportFormat, columns: string[], row: ExportRow) =>
+  format === "csv"
+    ? `${columns.map((column) => csvCell(row[column])).join(",")}\n`
+    : `${JSON.stringify(Object.fromEntries(columns.map((column) => [column, row[column] ?? null])))}\n`
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { goalProgress, type Goal } from "@/lib/goals"
+import type { TrendSample } from "@/lib/trend-smoothing"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const START = Date.UTC(2026, 0, 1)
+
+// Four weeks of daily weigh-ins losing 0.1 kg a day
+const points: TrendSample[] = Array.from({ length: 28 }, (_, i) => ({
+  timestamp: START + i * DAY_MS,
+  weight: 80 - 0.1 * i + (i % 2 === 0 ? 0.1 : -0.1),
+  uncertainty: 0.1,
+}))
+const last = points[points.length - 1].timestamp
+
+const goal: Goal = { targetKg: 75, targetDate: "2026-12-31", startKg: 80, setAt: "2026-01-01T00:00:00Z" }
+
+describe("goalProgress", () => {
+  it("reports progress and pace toward the target", () => {
+    const progress = goalProgress(goal, points, last)!
+    expect(progress.reached).toBe(false)
+    expect(progress.kgPerWeek).toBeCloseTo(-0.7, 1)
+    expect(progress.progress).toBeGreaterThan(0)
+    expect(progress.progress).toBeLessThan(1)
+    expect(progress.onTrack).toBe(true)
+  })
+
+  it("projects from the last weigh-in, not from now", () => {
+    const today = goalProgress(goal, points, last)!
+    const later = goalProgress(goal, points, last + 14 * DAY_MS)!
+    expect(later.projectedAt).toBe(today.projectedAt)
+    expect(later.projectedRange).toEqual(today.projectedRange)
+    expect(today.projectedAt!).toBeGreaterThan(last)
+  })
+
+  it("counts a target already passed as reached", () => {
+    const progress = goalProgress({ ...goal, targetKg: 79 }, points, last)!
+    expect(progress.reached).toBe(true)
+    expect(progress.progress).toBe(1)
+    expect(progress.projectedAt).toBeNull()
+  })
+
+  it("needs at least one weigh-in", () => {
+    expect(goalProgress(goal, [], last)).toBeNull()
+  })
+})
@@ -0,0 +1,95 @@
+import { ewma, rateOfChange, type TrendSample } from "@/lib/trend-smoothing"
+
+// Goal weights per profile, and a projection of when the current pace
+// reaches them.
+
+export type Goal = {
+  targetKg: number
+  // YYYY-MM-DD
+  targetDate: string
+  // Smoothed weight when the goal was set, the 0% mark of progress
+  startKg: number
+  setAt: string
+}
+
+// Goals keyed by profile id, or NO_PROFILE_GOAL when no profiles are set up
+export type Goals = Record<string, Goal>
+
+export const NO_PROFILE_GOAL = "all"
+
+export type GoalProgress = {
+  currentKg: number
+  remainingKg: number
+  // 0..1 of the way from startKg to targetKg
+  progress: number
+  reached: boolean
+  kgPerWeek: number | null
+  // Weekly change needed to arrive exactly on targetDate
+  requiredKgPerWeek: number | null
+  projectedAt: number | null
+  // 95% range of the projection; latest is null when the slow end never arrives
+  projectedRange: { earliest: number; latest: number | null } | null
+  onTrack: boolean | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+// Pace is fitted over this many recent days
+const RECENT_DAYS = 28
+const EWMA_HALF_LIFE_DAYS = 7
+// A goal within this distance counts as reached
+const REACHED_KG = 0.1
+
+export function currentSmoothedWeight(points: TrendSample[]): number | null {
+  if (points.length === 0) return null
+  return ewma(points, EWMA_HALF_LIFE_DAYS)[points.length - 1]
+}
+
+export function goalProgress(goal: Goal, points: TrendSample[], now = Date.now()): GoalProgress | null {
+  const currentKg = currentSmoothedWeight(points)
+  if (currentKg === null) return null
+
+  const remainingKg = goal.targetKg - currentKg
+  const total = goal.targetKg - goal.startKg
+  const progress = total === 0 ? 1 : Math.min(1, Math.max(0, (currentKg - goal.startKg) / total))
+  const reached = Math.abs(remainingKg) <= REACHED_KG || (total !== 0 && Math.sign(remainingKg) !== Math.sign(total))
+
+  const last = points[points.length - 1].timestamp
+  const rate = rateOfChange(points.filter((p) => last - p.timestamp <= RECENT_DAYS * DAY_MS))
+  const targetAt = new Date(`${goal.targetDate}T00:00:00`).getTime()
+  const weeksLeft = (targetAt - now) / WEEK_MS
+  const requiredKgPerWeek = reached || weeksLeft <= 0 ? null : remainingKg / weeksLeft
+
+  const weeksAt = (kgPerWeek: number) =>
+    Math.sign(kgPerWeek) === Math.sign(remainingKg) ? remainingKg / kgPerWeek : null
+
+  let projectedAt: number | null = null
+  let projectedRange: GoalProgress["projectedRange"] = null
+  if (!reached && rate) {
+    const weeks = weeksAt(rate.kgPerWeek)
+    if (weeks !== null) {
+      // currentKg and the rate describe the last weigh-in, so the projection starts there, not at now
+      projectedAt = last + weeks * WEEK_MS
+      // The faster pace gives the earliest date; a slow end pointing away never arrives
+      const spread = 1.96 * rate.stdErrKgPerWeek * Math.sign(rate.kgPerWeek)
+      const fast = weeksAt(rate.kgPerWeek + spread)
+      const slow = weeksAt(rate.kgPerWeek - spread)
+      projectedRange = {
+        earliest: last + (fast ?? weeks) * WEEK_MS,
+        latest: slow === null ? null : last + slow * WEEK_MS,
+      }
+    }
+  }
+
+  return {
+    currentKg,
+    remainingKg,
+    progress: reached ? 1 : progress,
+    reached,
+    kgPerWeek: rate?.kgPerWeek ?? null,
+    requiredKgPerWeek,
+    projectedAt,
+    projectedRange,
+    onTrack: reached ? true : rate ? projectedAt !== null && projectedAt <= targetAt : null,
+  }
+}
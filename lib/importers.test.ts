@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { detectFormat, guessMapping, mapRows, parseDate, parseWeight, readImportTable } from "@/lib/importers"
+
+describe("parseWeight", () => {
+  it.each([
+    ["72.5", "kg", 72.5],
+    ["72,5 kg", "lb", 72.5],
+    ["160 lbs", "kg", 160 / 2.20462],
+    ["11 st 6 lb", "kg", (11 * 14 + 6) / 2.20462],
+    ["160", "lb", 160 / 2.20462],
+  ] as const)("reads %s with %s as the default unit", (text, unit, kg) => {
+    expect(parseWeight(text, unit)).toBeCloseTo(kg, 2)
+  })
+
+  it("rejects text that is not a weight", () => {
+    expect(parseWeight("heavy", "kg")).toBeNull()
+  })
+})
+
+describe("parseDate", () => {
+  it("keeps an explicit offset", () => {
+    expect(parseDate("2024-03-04 07:15:00 +0100")?.toISOString()).toBe("2024-03-04T06:15:00.000Z")
+  })
+
+  it("reads day first only when asked or when the day is above 12", () => {
+    expect(parseDate("03/04/2024")?.getMonth()).toBe(2)
+    expect(parseDate("03/04/2024", true)?.getMonth()).toBe(3)
+    expect(parseDate("13/04/2024")?.getMonth()).toBe(3)
+  })
+
+  it("reads Unix timestamps in seconds and milliseconds", () => {
+    expect(parseDate("1700000000")?.getTime()).toBe(1700000000000)
+    expect(parseDate("1700000000000")?.getTime()).toBe(1700000000000)
+  })
+})
+
+describe("Withings import", () => {
+  const text = [
+    "Date,Weight (kg),Fat mass (kg),Bone mass (kg)",
+    "2024-03-04 07:15:00,72.4,15.1,3.0",
+    "2024-03-05 07:20:00,72.2,15.0,3.0",
+    "2024-03-05 07:20:00,72.2,15.0,3.0",
+    "2099-01-01 07:00:00,72.0,15.0,3.0",
+    "2024-03-06 07:10:00,,15.0,3.0",
+  ].join("\n")
+
+  it("is detected and mapped from its header", () => {
+    expect(detectFormat("weight.csv", text)).toBe("withings")
+    const table = readImportTable(text, "withings")
+    const mapping = guessMapping(table)
+    expect(mapping).toMatchObject({ dateColumn: 0, weightColumn: 1, unit: "kg" })
+
+    const rows = mapRows(table, mapping, Date.UTC(2025, 0, 1))
+    expect(rows.map((row) => row.weight_kg)).toEqual([72.4, 72.2, 72.2, 72, null])
+    expect(rows.map((row) => row.error)).toEqual([
+      null,
+      null,
+      "Same time as line 3",
+      "Date is in the future",
+      'Unrecognized weight ""',
+    ])
+  })
+})
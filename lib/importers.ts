@@ -0,0 +1,310 @@
+import type { ImportedEvent } from "@/lib/domain"
+import type { TrendPoint } from "@/lib/server/weight-data"
+import { LB_PER_KG, type WeightUnit } from "@/lib/units"
+
+// Readers for weigh-ins exported by other apps and scales. Every format is
+// read into a plain table of text cells first and then mapped to a time and a
+// weight, so the same preview and validation apply to all of them.
+
+export type ImportFormat = "csv" | "withings" | "apple-health" | "garmin" | "fitbit"
+
+export const IMPORT_FORMATS: { format: ImportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "withings", label: "Withings (weight.csv)" },
+  { format: "apple-health", label: "Apple Health (export.xml)" },
+  { format: "garmin", label: "Garmin Connect (CSV)" },
+  { format: "fitbit", label: "Fitbit (CSV or JSON)" },
+]
+
+export type ImportTable = {
+  headers: string[]
+  // `line` is the row's line in the file, for error messages
+  rows: { line: number; cells: string[] }[]
+}
+
+export type ColumnMapping = {
+  dateColumn: number
+  // Separate time of day, for exports that split date and time
+  timeColumn: number | null
+  weightColumn: number
+  // Unit of weights that carry no unit of their own
+  unit: WeightUnit
+  // Reads ambiguous dates such as 03/04/2024 as 3 April
+  dayFirst: boolean
+}
+
+export type ImportRow = {
+  line: number
+  started_at: string | null
+  weight_kg: number | null
+  error: string | null
+}
+
+// Plausible body weights; anything else is a unit or column mix-up
+const MIN_WEIGHT_KG = 1
+const MAX_WEIGHT_KG = 500
+
+const LB_PER_ST = 14
+
+// Rows per import request; larger files are sent in several
+export const MAX_IMPORT_ROWS = 5000
+
+// Other apps round to 0.1 kg or 0.2 lb and say nothing about their precision
+const IMPORTED_UNCERTAINTY_KG = 0.1
+
+// Imported events appear in the trend under a pseudo scale per source
+export const importScaleId = (source: string) => `import:${source}`
+
+export const importedTrendPoint = (event: ImportedEvent): TrendPoint => ({
+  event_id: event.id,
+  scale_id: importScaleId(event.source),
+  started_at: event.started_at,
+  raw_stable_weight_kg: event.weight_kg,
+  raw_uncertainty_kg: IMPORTED_UNCERTAINTY_KG,
+  raw_quality: 1,
+  source: event.source,
+})
+
+function detectDelimiter(line: string) {
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: line.split(d).length }))
+  return counts.sort((a, b) => b.n - a.n)[0].d
+}
+
+/** RFC 4180 CSV, with the delimiter (comma, semicolon or tab) taken from the first line. */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const delimiter = detectDelimiter(text.split("\n", 1)[0])
+  const rows: { line: number; cells: string[] }[] = []
+  let cells: string[] = []
+  let cell = ""
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  const endRow = () => {
+    cells.push(cell)
+    if (cells.some((c) => c.trim() !== "")) rows.push({ line: rowLine, cells })
+    cells = []
+    cell = ""
+    rowLine = line
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        if (ch === "\n") line++
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === delimiter) {
+      cells.push(cell)
+      cell = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      line++
+      endRow()
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRow()
+  return rows
+}
+
+const toTable = (rows: { line: number; cells: string[] }[]): ImportTable => ({
+  headers: rows[0]?.cells.map((h) => h.trim()) ?? [],
+  rows: rows.slice(1),
+})
+
+const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1] ?? ""
+
+// Apple Health keeps every metric in one XML file; only body mass records are read
+function readAppleHealth(text: string): ImportTable {
+  const rows: ImportTable["rows"] = []
+  const pattern = /<Record\b[^>]*type="HKQuantityTypeIdentifierBodyMass"[^>]*>/g
+  // Exports run to hundreds of megabytes, so lines are counted incrementally
+  let line = 1
+  let counted = 0
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0
+    for (let i = counted; i < index; i++) if (text.charCodeAt(i) === 10) line++
+    counted = index
+    const tag = match[0]
+    const weight = `${attribute(tag, "value")} ${attribute(tag, "unit")}`
+    rows.push({ line, cells: [attribute(tag, "startDate"), weight, attribute(tag, "sourceName")] })
+  }
+  return { headers: ["startDate", "weight", "sourceName"], rows }
+}
+
+// Garmin Connect lists a date on its own row, followed by a row per weigh-in that day
+function readGarmin(text: string): ImportTable {
+  const table = toTable(parseCsv(text))
+  if (table.headers[0]?.toLowerCase() !== "time") return table
+
+  const rows: ImportTable["rows"] = []
+  let day = ""
+  for (const row of table.rows) {
+    const filled = row.cells.filter((c) => c.trim() !== "")
+    if (filled.length === 1 && !Number.isNaN(Date.parse(filled[0]))) {
+      day = filled[0].trim()
+    } else {
+      rows.push({ line: row.line, cells: [day, ...row.cells] })
+    }
+  }
+  return { headers: ["Date", ...table.headers], rows }
+}
+
+// Fitbit exports CSV under a "Body" section title, or JSON arrays of weight logs
+function readFitbit(text: string): ImportTable {
+  const trimmed = text.trimStart()
+  if (trimmed.startsWith("[")) {
+    const logs = JSON.parse(trimmed) as Record<string, unknown>[]
+    const headers = Array.from(new Set(logs.flatMap((log) => Object.keys(log))))
+    return {
+      headers,
+      rows: logs.map((log, i) => ({ line: i + 1, cells: headers.map((h) => (log[h] == null ? "" : String(log[h]))) })),
+    }
+  }
+  const rows = parseCsv(text)
+  const header = rows.findIndex((row) => row.cells.some((c) => /^date$/i.test(c.trim())))
+  return toTable(header > 0 ? rows.slice(header) : rows)
+}
+
+export function readImportTable(text: string, format: ImportFormat): ImportTable {
+  if (format === "apple-health") return readAppleHealth(text)
+  if (format === "garmin") return readGarmin(text)
+  if (format === "fitbit") return readFitbit(text)
+  return toTable(parseCsv(text))
+}
+
+export function detectFormat(filename: string, text: string): ImportFormat {
+  const head = text.slice(0, 2000)
+  if (/\.xml$/i.test(filename) || head.includes("<HealthData")) return "apple-health"
+  if (/^\s*\[/.test(head) && head.includes('"logId"')) return "fitbit"
+  if (/^\s*Body\s*$/.test(head.split("\n", 1)[0])) return "fitbit"
+  if (/^\s*"?Time"?\s*,\s*"?Weight"?/i.test(head)) return "garmin"
+  if (/Fat mass/i.test(head) && /Weight \((kg|lb)\)/i.test(head)) return "withings"
+  return "csv"
+}
+
+// `unit` applies when the weight column's header does not name one
+export function guessMapping(table: ImportTable, unit: WeightUnit = "kg"): ColumnMapping {
+  const find = (pattern: RegExp) => table.headers.findIndex((h) => pattern.test(h))
+  const dateColumn = Math.max(0, find(/date|time|timestamp|started/i))
+  const timeColumn = find(/^time$/i)
+  const weightColumn = find(/weight|mass|kg|lb/i)
+  const unitHeader = table.headers[weightColumn] ?? ""
+  const headerUnit = /\bkg\b/i.test(unitHeader)
+    ? "kg"
+    : /\blbs?\b/i.test(unitHeader)
+      ? "lb"
+      : /\bst\b/i.test(unitHeader)
+        ? "st"
+        : null
+  return {
+    dateColumn,
+    timeColumn: timeColumn >= 0 && timeColumn !== dateColumn ? timeColumn : null,
+    weightColumn: weightColumn >= 0 ? weightColumn : Math.min(1, table.headers.length - 1),
+    unit: headerUnit ?? unit,
+    dayFirst: false,
+  }
+}
+
+/** Reads "72.5", "72,5 kg", "160 lbs" or "11 st 6 lb"; a unit in the text wins over `unit`. */
+export function parseWeight(text: string, unit: WeightUnit): number | null {
+  const value = text.trim().toLowerCase().replace(/(\d),(\d)/, "$1.$2")
+  const stones = value.match(/^(\d+(?:\.\d+)?)\s*st(?:one)?s?\s*(?:(\d+(?:\.\d+)?)\s*(?:lbs?|pounds?)?)?$/)
+  if (stones) return ((Number(stones[1]) * LB_PER_ST + Number(stones[2] ?? 0)) / LB_PER_KG) || null
+
+  const match = value.match(/^(-?\d+(?:\.\d+)?)\s*(kg|kgs|kilograms?|lbs?|pounds?)?$/)
+  if (!match) return null
+  const amount = Number(match[1])
+  const suffix = match[2]
+  if (suffix?.startsWith("k")) return amount
+  if (suffix) return amount / LB_PER_KG
+  if (unit === "lb") return amount / LB_PER_KG
+  if (unit === "st") return (amount * LB_PER_ST) / LB_PER_KG
+  return amount
+}
+
+const hour24 = (hour: number, meridiem: string | undefined) => {
+  if (!meridiem) return hour
+  const pm = meridiem.toLowerCase() === "pm"
+  return (hour % 12) + (pm ? 12 : 0)
+}
+
+/**
+ * Reads ISO-style dates (with an optional offset, as Apple Health writes
+ * them), numeric day/month/year dates, Unix timestamps and anything
+ * Date.parse understands. Dates without an offset are local time.
+ */
+export function parseDate(text: string, dayFirst = false): Date | null {
+  const value = text.trim()
+  if (value === "") return null
+
+  if (/^\d{10}(\d{3})?$/.test(value)) return new Date(value.length === 10 ? Number(value) * 1000 : Number(value))
+
+  const time = String.raw`(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(am|pm)?)?`
+  const iso = value.match(new RegExp(String.raw`^(\d{4})-(\d{1,2})-(\d{1,2})${time}\s*(Z|[+-]\d{2}:?\d{2})?$`, "i"))
+  if (iso) {
+    const [, y, mo, d, h = "0", mi = "0", s = "0", meridiem, zone] = iso
+    if (zone) {
+      const offset = zone === "Z" || zone === "z" ? "Z" : `${zone.slice(0, 3)}:${zone.slice(-2)}`
+      const pad = (n: string) => n.padStart(2, "0")
+      const date = new Date(
+        `${y}-${pad(mo)}-${pad(d)}T${pad(String(hour24(Number(h), meridiem)))}:${mi}:${pad(s)}${offset}`,
+      )
+      return Number.isNaN(date.getTime()) ? null : date
+    }
+    const date = new Date(Number(y), Number(mo) - 1, Number(d), hour24(Number(h), meridiem), Number(mi), Number(s))
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
+  const numeric = value.match(new RegExp(String.raw`^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})${time}$`, "i"))
+  if (numeric) {
+    const [, a, b, yearText, h = "0", mi = "0", s = "0", meridiem] = numeric
+    // A part above 12 can only be the day, whatever the preference
+    const first = Number(a)
+    const second = Number(b)
+    const readDayFirst = first > 12 || (dayFirst && second <= 12)
+    const day = readDayFirst ? first : second
+    const month = readDayFirst ? second : first
+    const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText)
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null
+    return new Date(year, month - 1, day, hour24(Number(h), meridiem), Number(mi), Number(s))
+  }
+
+  const parsed = Date.parse(value)
+  return Number.isNaN(parsed) ? null : new Date(parsed)
+}
+
+/** Maps table rows to weigh-ins, with a reason for every row that cannot be imported. */
+export function mapRows(table: ImportTable, mapping: ColumnMapping, now = Date.now()): ImportRow[] {
+  const seen = new Map<string, number>()
+  return table.rows.map(({ line, cells }) => {
+    const dateText = cells[mapping.dateColumn] ?? ""
+    const timeText = mapping.timeColumn !== null ? (cells[mapping.timeColumn] ?? "") : ""
+    const date = parseDate(timeText ? `${dateText.trim()} ${timeText.trim()}` : dateText, mapping.dayFirst)
+    const weight = parseWeight(cells[mapping.weightColumn] ?? "", mapping.unit)
+
+    const startedAt = date ? date.toISOString() : null
+
+    const error = (() => {
+      if (!date || !startedAt) return `Unrecognized date "${dateText}"`
+      if (date.getTime() > now) return "Date is in the future"
+      if (weight === null) return `Unrecognized weight "${cells[mapping.weightColumn] ?? ""}"`
+      if (weight < MIN_WEIGHT_KG || weight > MAX_WEIGHT_KG) return `Weight ${weight.toFixed(1)} kg is out of range`
+      if (seen.has(startedAt)) return `Same time as line ${seen.get(startedAt)}`
+      return null
+    })()
+    if (!error && startedAt) seen.set(startedAt, line)
+
+    return { line, started_at: startedAt, weight_kg: weight, error }
+  })
+}
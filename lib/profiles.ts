@@ -0,0 +1,79 @@
+// Profiles let several people (or pets) share one scale. Each weight event is
+// assigned to the profile whose recent trend is nearest to its stable weight,
+// unless the user has pinned it to a profile manually.
+
+export type Profile = {
+  id: string
+  name: string
+  minKg: number
+  maxKg: number
+  color: string
+}
+
+// Manual assignments: a profile id, or null to pin the event as unassigned
+export type ProfileOverrides = Record<string, string | null>
+
+export type AssignableEvent = {
+  id: string
+  started_at: string
+  weightKg: number | null
+}
+
+export const PROFILE_COLORS = ["#3b82f6", "#f97316", "#a855f7", "#10b981", "#ef4444", "#eab308"]
+
+// How far outside its declared range a weight may fall and still match a profile
+const RANGE_MARGIN_KG = 2
+const TREND_WINDOW = 5
+const TREND_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+
+const rangeMidpoint = (profile: Profile) => (profile.minKg + profile.maxKg) / 2
+
+/**
+ * Assigns events to profiles in chronological order so each profile's
+ * expected weight follows the events already attributed to it.
+ */
+export function assignProfiles(
+  events: AssignableEvent[],
+  profiles: Profile[],
+  overrides: ProfileOverrides = {},
+): Map<string, string | null> {
+  const assignments = new Map<string, string | null>()
+  const history = new Map<string, { timestamp: number; kg: number }[]>(profiles.map((p) => [p.id, []]))
+
+  const ordered = events
+    .map((e) => ({ ...e, timestamp: new Date(e.started_at).getTime() }))
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  for (const event of ordered) {
+    let profileId: string | null = null
+
+    if (event.id in overrides) {
+      profileId = overrides[event.id]
+      if (profileId && !history.has(profileId)) profileId = null
+    } else if (event.weightKg !== null && Number.isFinite(event.weightKg)) {
+      let bestDistance = Number.POSITIVE_INFINITY
+      for (const profile of profiles) {
+        if (event.weightKg < profile.minKg - RANGE_MARGIN_KG || event.weightKg > profile.maxKg + RANGE_MARGIN_KG) {
+          continue
+        }
+        const recent = (history.get(profile.id) ?? [])
+          .filter((h) => event.timestamp - h.timestamp <= TREND_MAX_AGE_MS)
+          .slice(-TREND_WINDOW)
+        const expected =
+          recent.length > 0 ? recent.reduce((sum, h) => sum + h.kg, 0) / recent.length : rangeMidpoint(profile)
+        const distance = Math.abs(event.weightKg - expected)
+        if (distance < bestDistance) {
+          bestDistance = distance
+          profileId = profile.id
+        }
+      }
+    }
+
+    assignments.set(event.id, profileId)
+    if (profileId && event.weightKg !== null && Number.isFinite(event.weightKg)) {
+      history.get(profileId)?.push({ timestamp: event.timestamp, kg: event.weightKg })
+    }
+  }
+
+  return assignments
+}
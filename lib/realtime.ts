@@ -0,0 +1,202 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  ImportedEventSchema,
+  WeightEventResultSchema,
+  WeightEventSchema,
+  parseRows,
+  type DataProblem,
+} from "@/lib/domain"
+import { importedTrendPoint } from "@/lib/importers"
+import type { EventSummary, TrendPoint } from "@/lib/server/weight-data"
+
+// Row changes on weight_events and weight_event_results, in the shape of
+// Supabase postgres_changes payloads. The dashboard consumes them through
+// ChangeFeed so a mocked feed can stand in for the realtime channel.
+
+export type WeightTable = "weight_events" | "weight_event_results"
+
+export type WeightChange = {
+  table: WeightTable
+  eventType: "INSERT" | "UPDATE" | "DELETE"
+  new: Record<string, unknown>
+  // Only the primary key unless the table uses REPLICA IDENTITY FULL
+  old: Record<string, unknown>
+}
+
+export type RealtimeStatus = "connecting" | "live" | "offline"
+
+export type ChangeFeed = {
+  // Returns an unsubscribe function
+  subscribe(onChange: (change: WeightChange) => void, onStatus: (status: RealtimeStatus) => void): () => void
+}
+
+const WATCHED_TABLES: WeightTable[] = ["weight_events", "weight_event_results"]
+
+export function createSupabaseChangeFeed(supabase: SupabaseClient): ChangeFeed {
+  return {
+    subscribe(onChange, onStatus) {
+      onStatus("connecting")
+      let channel = supabase.channel("weight-changes")
+      for (const table of WATCHED_TABLES) {
+        channel = channel.on("postgres_changes", { event: "*", schema: "public", table }, (payload) =>
+          onChange({
+            table,
+            eventType: payload.eventType,
+            new: payload.new as Record<string, unknown>,
+            old: payload.old as Record<string, unknown>,
+          }),
+        )
+      }
+      channel.subscribe((status, err) => {
+        if (err) console.warn("[v0] Realtime channel error:", err)
+        onStatus(status === "SUBSCRIBED" ? "live" : "offline")
+      })
+      return () => {
+        supabase.removeChannel(channel)
+      }
+    },
+  }
+}
+
+/**
+ * In-memory feed for exercising the dashboard without a realtime connection.
+ * `emit` delivers a change to every subscriber, `setStatus` drives the live
+ * indicator.
+ */
+export function createMockChangeFeed(initialStatus: RealtimeStatus = "live") {
+  const subscribers = new Set<{ onChange: (change: WeightChange) => void; onStatus: (s: RealtimeStatus) => void }>()
+  let status = initialStatus
+
+  const feed: ChangeFeed = {
+    subscribe(onChange, onStatus) {
+      const subscriber = { onChange, onStatus }
+      subscribers.add(subscriber)
+      onStatus(status)
+      return () => {
+        subscribers.delete(subscriber)
+      }
+    },
+  }
+
+  return {
+    feed,
+    emit(change: WeightChange) {
+      for (const subscriber of subscribers) subscriber.onChange(change)
+    },
+    setStatus(next: RealtimeStatus) {
+      status = next
+      for (const subscriber of subscribers) subscriber.onStatus(next)
+    },
+    get subscriberCount() {
+      return subscribers.size
+    },
+  }
+}
+
+const byStartedAtDesc = (a: EventSummary, b: EventSummary) =>
+  new Date(b.started_at).getTime() - new Date(a.started_at).getTime()
+
+const deletedId = (change: WeightChange) => (typeof change.old.id === "string" ? change.old.id : null)
+
+export type GraphsUpdate = {
+  graphs: EventSummary[]
+  // Change in the total event count
+  totalDelta: number
+  // Events whose current result was deleted and must be reloaded to find the one before it
+  staleEventIds: string[]
+  problems: DataProblem[]
+}
+
+export function applyChangeToGraphs(graphs: EventSummary[], change: WeightChange): GraphsUpdate {
+  const unchanged: GraphsUpdate = { graphs, totalDelta: 0, staleEventIds: [], problems: [] }
+
+  if (change.eventType === "DELETE") {
+    const id = deletedId(change)
+    if (!id) return unchanged
+    if (change.table === "weight_events") {
+      const next = graphs.filter((graph) => graph.id !== id)
+      return { ...unchanged, graphs: next, totalDelta: next.length < graphs.length ? -1 : 0 }
+    }
+    const staleEventIds = graphs.filter((graph) => graph.results?.id === id).map((graph) => graph.id)
+    return { ...unchanged, staleEventIds }
+  }
+
+  if (change.table === "weight_events") {
+    // Imported events have no samples to chart; they only join the trend
+    if (change.new.source != null) return unchanged
+    const { rows, problems } = parseRows(WeightEventSchema, [change.new], change.table)
+    if (rows.length === 0) return { ...unchanged, problems }
+    const event = rows[0]
+    const existing = graphs.find((graph) => graph.id === event.id)
+    if (existing) {
+      const next = graphs.map((graph) => (graph.id === event.id ? { ...graph, started_at: event.started_at } : graph))
+      return { ...unchanged, graphs: next.sort(byStartedAtDesc) }
+    }
+    return { ...unchanged, graphs: [{ ...event }, ...graphs].sort(byStartedAtDesc), totalDelta: 1 }
+  }
+
+  const { rows, problems } = parseRows(WeightEventResultSchema, [change.new], change.table)
+  if (rows.length === 0) return { ...unchanged, problems }
+  const result = rows[0]
+  const next = graphs.map((graph) => {
+    if (graph.id !== result.event_id) return graph
+    const current = graph.results
+    const isNewer =
+      !current ||
+      current.id === result.id ||
+      new Date(result.computed_at).getTime() >= new Date(current.computed_at).getTime()
+    return isNewer ? { ...graph, results: result } : graph
+  })
+  return { ...unchanged, graphs: next }
+}
+
+/**
+ * Keeps the trend series in step with a change. `graphs` is the event list
+ * after the same change was applied; it supplies the event time of new events
+ * and tells whether a result is still the latest one for a loaded event.
+ */
+export function applyChangeToTrend(points: TrendPoint[], change: WeightChange, graphs: EventSummary[]): TrendPoint[] {
+  if (change.table === "weight_events") {
+    if (change.eventType === "DELETE") {
+      const id = deletedId(change)
+      return id ? points.filter((point) => point.event_id !== id) : points
+    }
+    const imported = ImportedEventSchema.safeParse(change.new)
+    if (imported.success) {
+      const point = importedTrendPoint(imported.data)
+      return [...points.filter((p) => p.event_id !== point.event_id), point].sort(
+        (a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime(),
+      )
+    }
+    const graph = graphs.find((g) => g.id === change.new.id)
+    if (!graph || !points.some((point) => point.event_id === graph.id)) return points
+    return points
+      .map((point) => (point.event_id === graph.id ? { ...point, started_at: graph.started_at } : point))
+      .sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime())
+  }
+
+  // Deleted results are handled by reloading the trend
+  if (change.eventType === "DELETE") return points
+
+  const parsed = WeightEventResultSchema.safeParse(change.new)
+  if (!parsed.success) return points
+  const result = parsed.data
+
+  const graph = graphs.find((g) => g.id === result.event_id)
+  if (graph?.results && graph.results.id !== result.id) return points
+
+  const existing = points.find((point) => point.event_id === result.event_id)
+  const startedAt = existing?.started_at ?? graph?.started_at
+  if (!startedAt) return points
+
+  const point: TrendPoint = {
+    event_id: result.event_id,
+    scale_id: result.scale_id,
+    started_at: startedAt,
+    raw_stable_weight_kg: result.raw_stable_weight_kg,
+    raw_uncertainty_kg: result.raw_uncertainty_kg,
+    raw_quality: result.raw_quality,
+  }
+  const next = existing ? points.map((p) => (p.event_id === result.event_id ? point : p)) : [...points, point]
+  return next.sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime())
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { MAX_SAMPLE_FILE_POINTS, parseSampleFile } from "@/lib/sample-files"
+
+describe("parseSampleFile", () => {
+  it("reads JSON pairs and the recorded start", () => {
+    const file = parseSampleFile(
+      "capture.json",
+      JSON.stringify({ started_at: "2024-03-04T07:15:00Z", samples: [[0, 72.4], [40, 72.5]] }),
+    )
+    expect(file.samples).toEqual([
+      { t: 0, kg: 72.4 },
+      { t: 40, kg: 72.5 },
+    ])
+    expect(file.startedAt).toBe("2024-03-04T07:15:00Z")
+    expect(file.problems).toEqual([])
+  })
+
+  it("reads CSV by header name, in any column order", () => {
+    const file = parseSampleFile("capture.csv", "weight_kg,time_ms\n72.4,0\n72.5,40\n")
+    expect(file.samples).toEqual([
+      { t: 0, kg: 72.4 },
+      { t: 40, kg: 72.5 },
+    ])
+    expect(file.startedAt).toBeNull()
+  })
+
+  it("reads headerless CSV as t then kg and reports invalid points", () => {
+    const file = parseSampleFile("capture.csv", "0,72.4\n40,oops\n80,72.5\n")
+    expect(file.samples).toHaveLength(2)
+    expect(file.problems).toHaveLength(1)
+  })
+
+  it("refuses files with too many samples", () => {
+    const samples = Array.from({ length: MAX_SAMPLE_FILE_POINTS + 1 }, (_, t) => [t, 70])
+    expect(() => parseSampleFile("big.json", JSON.stringify(samples))).toThrow(/at most/)
+  })
+
+  it("explains JSON that is not a list of samples", () => {
+    expect(() => parseSampleFile("capture.json", "{ nope")).toThrow("The file is not valid JSON")
+    expect(() => parseSampleFile("capture.json", '{"rows": []}')).toThrow(/Expected an array/)
+  })
+})
@@ -0,0 +1,75 @@
+import { parseSamples, type DataPoint, type DataProblem } from "@/lib/domain"
+import { parseCsv } from "@/lib/importers"
+
+// Raw sample captures from offline scales and bench rigs: `{ t, kg }` pairs
+// (t in ms) as JSON or CSV. Points go through parseSamples, the same
+// validation every fetched event gets, so a file charts exactly as it would
+// once stored.
+
+// Stored in a single weight_events row, so keep captures to a few minutes at 25 Hz
+export const MAX_SAMPLE_FILE_POINTS = 20000
+
+export type SampleFile = {
+  samples: DataPoint[]
+  // Invalid points, summarized as a single problem
+  problems: DataProblem[]
+  // Capture start recorded in the file, if any
+  startedAt: string | null
+}
+
+const TIME_HEADER = /^(t|t_ms|time|time_ms|ms|timestamp)$/i
+const WEIGHT_HEADER = /^(kg|weight|weight_kg|mass|mass_kg)$/i
+
+// Accepts [{ t, kg }], [[t, kg]], or { started_at?, samples: [...] }
+function readJson(text: string): { raw: unknown[]; startedAt: string | null } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  let raw: unknown
+  let startedAt: unknown = null
+  if (Array.isArray(parsed)) {
+    raw = parsed
+  } else if (parsed && typeof parsed === "object") {
+    const record = parsed as Record<string, unknown>
+    raw = record.samples ?? record.data
+    startedAt = record.started_at ?? record.startedAt ?? null
+  }
+  if (!Array.isArray(raw)) throw new Error("Expected an array of samples or an object with a samples array")
+
+  return {
+    raw: raw.map((point) => (Array.isArray(point) ? { t: point[0], kg: point[1] } : point)),
+    startedAt: typeof startedAt === "string" && !Number.isNaN(Date.parse(startedAt)) ? startedAt : null,
+  }
+}
+
+// A header row is optional; without one the first two columns are t and kg
+function readCsv(text: string): unknown[] {
+  const rows = parseCsv(text)
+  if (rows.length === 0) return []
+
+  const first = rows[0].cells.map((cell) => cell.trim())
+  const hasHeader = first.some((cell) => cell !== "" && !Number.isFinite(Number(cell)))
+  const column = (pattern: RegExp, fallback: number) => {
+    const index = hasHeader ? first.findIndex((cell) => pattern.test(cell)) : -1
+    return index >= 0 ? index : fallback
+  }
+  const t = column(TIME_HEADER, 0)
+  const kg = column(WEIGHT_HEADER, 1)
+
+  return (hasHeader ? rows.slice(1) : rows).map(({ cells }) => ({ t: cells[t], kg: cells[kg] }))
+}
+
+export function parseSampleFile(filename: string, text: string): SampleFile {
+  const isJson = /\.json$/i.test(filename) || /^\s*[[{]/.test(text)
+  const { raw, startedAt } = isJson ? readJson(text) : { raw: readCsv(text), startedAt: null }
+  if (raw.length > MAX_SAMPLE_FILE_POINTS) {
+    throw new Error(`The file has ${raw.length} samples; at most ${MAX_SAMPLE_FILE_POINTS} can be uploaded`)
+  }
+
+  const { samples, problems } = parseSamples(raw, filename, "sample file")
+  return { samples, problems, startedAt }
+}
@@ -0,0 +1,159 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { parseSamples, type DataPoint } from "@/lib/domain"
+
+// Transport for samples of a weigh-in that is still in progress. The live
+// view only depends on SampleSource, so a scale broadcast and the local
+// simulator are interchangeable.
+
+export type SampleSourceHandlers = {
+  // Samples arrive in time order, one or more at a time
+  onSample: (samples: DataPoint[]) => void
+  onEnd?: () => void
+  onError?: (message: string) => void
+}
+
+export type SampleSource = {
+  label: string
+  // Starts delivering samples; returns a function that stops the stream
+  subscribe(handlers: SampleSourceHandlers): () => void
+}
+
+export type SimulatedWeighInOptions = {
+  targetKg: number
+  rateHz: number
+  // Empty platform before stepping on
+  leadS: number
+  stepOnS: number
+  settleS: number
+  holdS: number
+  stepOffS: number
+  noiseKg: number
+  startMs: number
+  random: () => number
+}
+
+export const DEFAULT_SIMULATED_WEIGH_IN: SimulatedWeighInOptions = {
+  targetKg: 72.4,
+  rateHz: 25,
+  leadS: 0.5,
+  stepOnS: 1,
+  settleS: 2.5,
+  holdS: 5,
+  stepOffS: 0.6,
+  noiseKg: 0.012,
+  startMs: 0,
+  random: Math.random,
+}
+
+// Approximately normal noise from the sum of uniforms
+export const gaussian = (random: () => number) => random() + random() + random() + random() - 2
+
+export const smoothstep = (x: number) => x * x * (3 - 2 * x)
+
+/**
+ * Samples of a typical weigh-in: a ramp while stepping on, a decaying sway
+ * while the person settles, a noisy plateau at targetKg, then stepping off.
+ */
+export function simulateWeighIn(options: Partial<SimulatedWeighInOptions> = {}): DataPoint[] {
+  const opts = { ...DEFAULT_SIMULATED_WEIGH_IN, ...options }
+  const { targetKg, leadS, stepOnS, settleS, holdS, stepOffS, noiseKg, random } = opts
+  const totalS = leadS + stepOnS + settleS + holdS + stepOffS
+  const settleStart = leadS + stepOnS
+  const offStart = settleStart + settleS + holdS
+  const samples: DataPoint[] = []
+
+  for (let i = 0; i * (1 / opts.rateHz) <= totalS; i++) {
+    const tS = i / opts.rateHz
+    let kg: number
+    if (tS < leadS) {
+      kg = 0
+    } else if (tS < settleStart) {
+      kg = targetKg * 1.03 * smoothstep((tS - leadS) / stepOnS)
+    } else if (tS < offStart) {
+      const since = tS - settleStart
+      const sway = 0.03 * targetKg * Math.exp((-3 * since) / settleS) * Math.cos(2 * Math.PI * 1.4 * since)
+      kg = targetKg + sway
+    } else {
+      kg = targetKg * (1 - smoothstep(Math.min(1, (tS - offStart) / stepOffS)))
+    }
+    samples.push({ t: opts.startMs + tS * 1000, kg: Math.max(0, kg + gaussian(random) * noiseKg) })
+  }
+  return samples
+}
+
+/**
+ * Replays recorded samples at their original pace (scaled by `speed`),
+ * re-timed so the first sample lands when the stream starts.
+ */
+export function createReplaySampleSource(
+  samples: DataPoint[],
+  { label = "Replay", speed = 1, tickMs = 50 }: { label?: string; speed?: number; tickMs?: number } = {},
+): SampleSource {
+  return {
+    label,
+    subscribe({ onSample, onEnd }) {
+      if (samples.length === 0) {
+        onEnd?.()
+        return () => {}
+      }
+
+      const origin = samples[0].t
+      const startedAt = Date.now()
+      let next = 0
+
+      const timer = setInterval(() => {
+        const elapsed = (Date.now() - startedAt) * speed
+        const batch: DataPoint[] = []
+        while (next < samples.length && samples[next].t - origin <= elapsed) {
+          batch.push({ t: startedAt + (samples[next].t - origin) / speed, kg: samples[next].kg })
+          next++
+        }
+        if (batch.length > 0) onSample(batch)
+        if (next >= samples.length) {
+          clearInterval(timer)
+          onEnd?.()
+        }
+      }, tickMs)
+
+      return () => clearInterval(timer)
+    },
+  }
+}
+
+export function createSimulatedSampleSource(options: Partial<SimulatedWeighInOptions> = {}): SampleSource {
+  return {
+    label: "Simulated scale",
+    // Generate a fresh weigh-in for every subscription
+    subscribe: (handlers) => createReplaySampleSource(simulateWeighIn(options)).subscribe(handlers),
+  }
+}
+
+/**
+ * Samples broadcast by a scale on the Supabase Realtime channel
+ * `weigh-in:<scaleId>`: "sample" messages carry `{ t, kg }` or
+ * `{ samples: [...] }`, and an "end" message closes the weigh-in.
+ */
+export function createBroadcastSampleSource(supabase: SupabaseClient, scaleId: string): SampleSource {
+  return {
+    label: `Scale ${scaleId}`,
+    subscribe({ onSample, onEnd, onError }) {
+      const channel = supabase
+        .channel(`weigh-in:${scaleId}`)
+        .on("broadcast", { event: "sample" }, ({ payload }) => {
+          const { samples, problems } = parseSamples(payload?.samples ?? [payload], null, "broadcast")
+          if (problems.length > 0) console.warn("[v0] Skipped invalid broadcast samples:", problems)
+          if (samples.length > 0) onSample(samples)
+        })
+        .on("broadcast", { event: "end" }, () => onEnd?.())
+        .subscribe((status) => {
+          if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+            onError?.(`Could not subscribe to weigh-in:${scaleId} (${status})`)
+          }
+        })
+
+      return () => {
+        supabase.removeChannel(channel)
+      }
+    },
+  }
+}
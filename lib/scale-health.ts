@@ -0,0 +1,159 @@
+import type { DataPoint } from "@/lib/domain"
+
+// Load-cell health per scale, from each event's samples and latest result:
+// zero offset of the empty platform, noise floor, settling time and quality.
+
+export type EventHealth = {
+  event_id: string
+  started_at: string
+  // Median reading of the empty platform before stepping on and after stepping off
+  zero_offset_kg: number | null
+  noise_kg: number
+  // From step-on to the start of the stable window
+  settling_s: number | null
+  raw_quality: number
+}
+
+export type ScaleHealthSeries = {
+  scale_id: string
+  // Oldest first
+  events: EventHealth[]
+}
+
+export type HealthThresholds = {
+  // Metrics are the median over this many of a scale's most recent events
+  recentEvents: number
+  maxZeroOffsetKg: number
+  maxNoiseKg: number
+  // Recent noise floor relative to the scale's first events
+  maxNoiseGrowth: number
+  maxSettlingS: number
+  lowQuality: number
+  maxLowQualityFraction: number
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  recentEvents: 10,
+  maxZeroOffsetKg: 0.1,
+  maxNoiseKg: 0.05,
+  maxNoiseGrowth: 2,
+  maxSettlingS: 6,
+  lowQuality: 0.5,
+  maxLowQualityFraction: 0.2,
+}
+
+export type HealthMetric = "zero_offset" | "noise" | "noise_growth" | "settling" | "low_quality"
+
+export type HealthAlert = {
+  scale_id: string
+  metric: HealthMetric
+  value: number
+  threshold: number
+  message: string
+}
+
+// Readings below this fraction of the stable weight count as an empty platform
+const IDLE_FRACTION = 0.05
+const STEP_ON_FRACTION = 0.5
+const MIN_IDLE_SAMPLES = 3
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = values.slice().sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+export function eventHealth(
+  samples: DataPoint[],
+  result: {
+    event_id: string
+    started_at: string
+    raw_stable_weight_kg: number
+    window_start_s: number
+    mean_std_kg: number
+    raw_quality: number
+  },
+): EventHealth {
+  const idleMax = result.raw_stable_weight_kg * IDLE_FRACTION
+  const stepOn = samples.findIndex((s) => s.kg >= result.raw_stable_weight_kg * STEP_ON_FRACTION)
+
+  let lastLoaded = -1
+  for (let i = samples.length - 1; i >= 0; i--) {
+    if (samples[i].kg > idleMax) {
+      lastLoaded = i
+      break
+    }
+  }
+
+  // Only the tails count: a dip to zero mid-weigh-in is not an empty platform
+  const firstLoaded = samples.findIndex((s) => s.kg > idleMax)
+  const idle = firstLoaded === -1 ? samples : [...samples.slice(0, firstLoaded), ...samples.slice(lastLoaded + 1)]
+
+  const settling = stepOn === -1 ? null : result.window_start_s - samples[stepOn].t / 1000
+
+  return {
+    event_id: result.event_id,
+    started_at: result.started_at,
+    zero_offset_kg: idle.length >= MIN_IDLE_SAMPLES ? median(idle.map((s) => s.kg)) : null,
+    noise_kg: result.mean_std_kg,
+    settling_s: settling !== null && settling >= 0 ? settling : null,
+    raw_quality: result.raw_quality,
+  }
+}
+
+/**
+ * Fraction of low-quality events over the trailing `window` events, for each
+ * event in order, so the rate can be charted next to the other metrics.
+ */
+export function rollingLowQualityFraction(events: EventHealth[], lowQuality: number, window: number): number[] {
+  return events.map((_, i) => {
+    const slice = events.slice(Math.max(0, i - window + 1), i + 1)
+    return slice.filter((e) => e.raw_quality < lowQuality).length / slice.length
+  })
+}
+
+export function evaluateHealth(series: ScaleHealthSeries, thresholds: HealthThresholds): HealthAlert[] {
+  const { scale_id, events } = series
+  const recent = events.slice(-thresholds.recentEvents)
+  if (recent.length === 0) return []
+
+  const alerts: HealthAlert[] = []
+  const check = (metric: HealthMetric, value: number | null, threshold: number, message: string) => {
+    if (value !== null && value > threshold) alerts.push({ scale_id, metric, value, threshold, message })
+  }
+
+  const zero = median(recent.flatMap((e) => (e.zero_offset_kg === null ? [] : [e.zero_offset_kg])))
+  check(
+    "zero_offset",
+    zero === null ? null : Math.abs(zero),
+    thresholds.maxZeroOffsetKg,
+    `Empty platform reads ${zero?.toFixed(3)} kg`,
+  )
+
+  const noise = median(recent.map((e) => e.noise_kg))
+  check("noise", noise, thresholds.maxNoiseKg, `Noise floor is ${noise?.toFixed(4)} kg`)
+
+  // Growth is only meaningful once the baseline and recent windows do not overlap
+  if (events.length >= thresholds.recentEvents * 2) {
+    const baseline = median(events.slice(0, thresholds.recentEvents).map((e) => e.noise_kg))
+    if (baseline !== null && baseline > 0 && noise !== null) {
+      const growth = noise / baseline
+      check("noise_growth", growth, thresholds.maxNoiseGrowth, `Noise floor is ${growth.toFixed(1)}× its baseline`)
+    }
+  }
+
+  const settling = median(recent.flatMap((e) => (e.settling_s === null ? [] : [e.settling_s])))
+  check("settling", settling, thresholds.maxSettlingS, `Weigh-ins take ${settling?.toFixed(1)} s to settle`)
+
+  const lowFraction = recent.filter((e) => e.raw_quality < thresholds.lowQuality).length / recent.length
+  const percent = (value: number) => `${(value * 100).toFixed(0)}%`
+  check(
+    "low_quality",
+    lowFraction,
+    thresholds.maxLowQualityFraction,
+    `${percent(lowFraction)} of recent events are below ${percent(thresholds.lowQuality)} quality`,
+  )
+
+  return alerts
+}
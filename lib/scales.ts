@@ -0,0 +1,59 @@
+// Per-scale statistics for the device registry. Each event counts once, for
+// the scale that produced its latest result.
+
+export type ScaleEvent = {
+  event_id: string
+  scale_id: string
+  started_at: string
+  mean_std_kg: number
+  raw_quality: number
+}
+
+export type ScaleSummary = {
+  scale_id: string
+  event_count: number
+  first_event_at: string
+  last_event_at: string
+  // Typical noise floor: median of mean_std_kg across the scale's events
+  median_std_kg: number
+  mean_quality: number
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0
+  const sorted = values.slice().sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// Most recently active scale first
+export function summarizeScales(events: ScaleEvent[]): ScaleSummary[] {
+  const byScale = new Map<string, ScaleEvent[]>()
+  for (const event of events) {
+    const list = byScale.get(event.scale_id)
+    if (list) list.push(event)
+    else byScale.set(event.scale_id, [event])
+  }
+
+  const summaries: ScaleSummary[] = []
+  for (const [scaleId, list] of byScale) {
+    const times = list.map((e) => new Date(e.started_at).getTime())
+    summaries.push({
+      scale_id: scaleId,
+      event_count: list.length,
+      first_event_at: list[times.indexOf(Math.min(...times))].started_at,
+      last_event_at: list[times.indexOf(Math.max(...times))].started_at,
+      median_std_kg: median(list.map((e) => e.mean_std_kg)),
+      mean_quality: list.reduce((sum, e) => sum + e.raw_quality, 0) / list.length,
+    })
+  }
+
+  return summaries.sort((a, b) => new Date(b.last_event_at).getTime() - new Date(a.last_event_at).getTime())
+}
+
+// Scales whose noise floor is more than `factor` times the fleet median
+export function noisyScales(scales: ScaleSummary[], factor = 2): Set<string> {
+  if (scales.length < 2) return new Set()
+  const fleet = median(scales.map((s) => s.median_std_kg))
+  return new Set(scales.filter((s) => s.median_std_kg > fleet * factor).map((s) => s.scale_id))
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+
+export type ApiErrorCode =
+  | "config_missing"
+  | "unauthorized"
+  | "forbidden"
+  | "rate_limited"
+  | "bad_request"
+  | "not_found"
+  | "upstream_error"
+  | "internal_error"
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+    public status: number,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+// Every API route reports failures as { error: { code, message, details? } }
+export function errorResponse(error: unknown, headers?: HeadersInit) {
+  const apiError =
+    error instanceof ApiError
+      ? error
+      : new ApiError("internal_error", error instanceof Error ? error.message : "Unexpected error", 500)
+
+  const body = { code: apiError.code, message: apiError.message, ...(apiError.details && { details: apiError.details }) }
+  return NextResponse.json({ error: body }, { status: apiError.status, headers })
+}
@@ -0,0 +1,61 @@
+import { timingSafeEqual } from "node:crypto"
+import { cookies } from "next/headers"
+import { createServerClient } from "@supabase/ssr"
+import { ApiError } from "@/lib/server/api-error"
+
+export type Caller = { kind: "user"; id: string } | { kind: "token"; id: string }
+
+// Signed-in users may write only when listed by id or email, or given the
+// "writer" role in app_metadata (which only the service role can set)
+const WRITER_ROLE = "writer"
+
+const allowedUsers = () =>
+  new Set(
+    (process.env.ALLOWED_USERS ?? "")
+      .split(",")
+      .map((entry) => entry.trim().toLowerCase())
+      .filter(Boolean),
+  )
+
+const tokensMatch = (a: string, b: string) => {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+}
+
+/**
+ * Identifies the caller from a `Authorization: Bearer <token>` header matching
+ * apiToken, or from the Supabase session cookies set by the browser client.
+ * Signed-in users outside ALLOWED_USERS and without the writer role get 403.
+ */
+export async function requireCaller(request: Request, apiToken: string | null): Promise<Caller> {
+  const header = request.headers.get("authorization")
+  const bearer = header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : null
+
+  if (bearer) {
+    if (apiToken && tokensMatch(bearer, apiToken)) return { kind: "token", id: "api-token" }
+    throw new ApiError("unauthorized", "Invalid API token", 401)
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (supabaseUrl && supabaseKey) {
+    const cookieStore = await cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseKey, {
+      cookies: {
+        getAll: () => cookieStore.getAll(),
+        setAll: () => {},
+      },
+    })
+    const { data } = await supabase.auth.getUser()
+    const user = data.user
+    if (user) {
+      const allowed = allowedUsers()
+      const listed = allowed.has(user.id.toLowerCase()) || (user.email ? allowed.has(user.email.toLowerCase()) : false)
+      if (listed || user.app_metadata?.role === WRITER_ROLE) return { kind: "user", id: user.id }
+      throw new ApiError("forbidden", "This account is not allowed to make changes", 403)
+    }
+  }
+
+  throw new ApiError("unauthorized", "Sign in or provide an API token to make changes", 401)
+}
@@ -0,0 +1,42 @@
+import { ApiError } from "@/lib/server/api-error"
+
+const WINDOW_MS = 60 * 1000
+
+type Bucket = { windowStart: number; count: number }
+
+// Fixed one-minute windows kept in process memory. Each server instance
+// limits independently, which is enough to stop accidental trigger loops.
+const globalBuckets = globalThis as typeof globalThis & {
+  __rateLimitBuckets?: Map<string, Bucket>
+  __rateLimitSweptAt?: number
+}
+const buckets = (globalBuckets.__rateLimitBuckets ??= new Map<string, Bucket>())
+
+// Drops buckets whose window has ended, at most once a window, so callers
+// that stop calling do not stay in memory for the life of the process
+function sweepExpired(now: number) {
+  if (now - (globalBuckets.__rateLimitSweptAt ?? 0) < WINDOW_MS) return
+  globalBuckets.__rateLimitSweptAt = now
+  for (const [key, bucket] of buckets) {
+    if (now - bucket.windowStart >= WINDOW_MS) buckets.delete(key)
+  }
+}
+
+export function enforceRateLimit(key: string, limitPerMinute: number, now = Date.now()) {
+  sweepExpired(now)
+  const bucket = buckets.get(key)
+
+  if (!bucket || now - bucket.windowStart >= WINDOW_MS) {
+    buckets.set(key, { windowStart: now, count: 1 })
+    return
+  }
+
+  if (bucket.count >= limitPerMinute) {
+    const retryAfterS = Math.ceil((bucket.windowStart + WINDOW_MS - now) / 1000)
+    throw new ApiError("rate_limited", `Too many requests, retry in ${retryAfterS}s`, 429, {
+      retryAfterS,
+    })
+  }
+
+  bucket.count++
+}
@@ -0,0 +1,38 @@
+import { ApiError } from "@/lib/server/api-error"
+
+export type RecalculateConfig = {
+  functionUrl: string
+  functionSecret: string
+  apiToken: string | null
+  rateLimitPerMinute: number
+}
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 5
+
+// Bearer token accepted in place of a signed-in session, by every route that writes
+export const getApiToken = () => process.env.RECALC_API_TOKEN || null
+
+/**
+ * Reads the edge-function target and credentials from server-side env vars.
+ * Throws a config_missing ApiError naming every required variable that is unset.
+ */
+export function getRecalculateConfig(): RecalculateConfig {
+  const functionUrl = process.env.RECALC_FUNCTION_URL
+  const functionSecret = process.env.RECALC_FUNCTION_SECRET
+
+  if (!functionUrl || !functionSecret) {
+    const missing = [!functionUrl && "RECALC_FUNCTION_URL", !functionSecret && "RECALC_FUNCTION_SECRET"].filter(Boolean)
+    throw new ApiError("config_missing", `Recalculation is not configured: missing ${missing.join(", ")}`, 500, {
+      missing,
+    })
+  }
+
+  const rateLimit = Number(process.env.RECALC_RATE_LIMIT_PER_MINUTE)
+
+  return {
+    functionUrl,
+    functionSecret,
+    apiToken: getApiToken(),
+    rateLimitPerMinute: Number.isFinite(rateLimit) && rateLimit > 0 ? rateLimit : DEFAULT_RATE_LIMIT_PER_MINUTE,
+  }
+}
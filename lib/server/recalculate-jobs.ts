@@ -0,0 +1,153 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ApiError } from "@/lib/server/api-error"
+import { runWorkerBatch } from "@/lib/server/recalculate-worker"
+import type { RecalculateConfig } from "@/lib/server/recalculate-config"
+
+export type RecalculateJobStatus = "running" | "completed" | "failed"
+
+export type RecalculateJob = {
+  id: string
+  status: RecalculateJobStatus
+  created_at: string
+  updated_at: string
+  batch_size: number
+  // Set when the job targets specific events instead of draining the queue
+  target_event_ids: string[] | null
+  algorithm_version: string | null
+  batches: number
+  processed: number
+  failed: number
+  remaining: number | null
+  event_ids: string[]
+  error: string | null
+}
+
+// Stops a misbehaving worker that never reports an empty queue
+const MAX_BATCHES = 200
+const JOB_TTL_MS = 60 * 60 * 1000
+// A running job that has not recorded progress for this long lost the server instance running it
+const STALE_JOB_MS = 5 * 60 * 1000
+
+// Jobs are rows in recalculate_jobs (supabase/migrations), so a poll answered
+// by another server instance, or after a restart, still finds the job.
+const JOBS_TABLE = "recalculate_jobs"
+
+const jobError = (message: string) => new ApiError("upstream_error", message, 502)
+
+async function pruneJobs(supabase: SupabaseClient, now = Date.now()) {
+  const { error } = await supabase
+    .from(JOBS_TABLE)
+    .delete()
+    .neq("status", "running")
+    .lt("updated_at", new Date(now - JOB_TTL_MS).toISOString())
+  if (error) console.error("[v0] Error pruning recalculation jobs:", error.message)
+}
+
+export type RecalculateJobOptions = {
+  batchSize: number
+  eventIds?: string[] | null
+  algorithmVersion?: string | null
+}
+
+export async function createJob(
+  supabase: SupabaseClient,
+  { batchSize, eventIds = null, algorithmVersion = null }: RecalculateJobOptions,
+): Promise<RecalculateJob> {
+  await pruneJobs(supabase)
+  const now = new Date().toISOString()
+  const job: RecalculateJob = {
+    id: crypto.randomUUID(),
+    status: "running",
+    created_at: now,
+    updated_at: now,
+    batch_size: batchSize,
+    target_event_ids: eventIds,
+    algorithm_version: algorithmVersion,
+    batches: 0,
+    processed: 0,
+    failed: 0,
+    remaining: eventIds ? eventIds.length : null,
+    event_ids: [],
+    error: null,
+  }
+  const { error } = await supabase.from(JOBS_TABLE).insert(job)
+  if (error) throw jobError(`Could not create a recalculation job: ${error.message}`)
+  return job
+}
+
+export async function getJob(supabase: SupabaseClient, id: string): Promise<RecalculateJob | null> {
+  const { data, error } = await supabase.from(JOBS_TABLE).select("*").eq("id", id).maybeSingle()
+  if (error) throw jobError(error.message)
+  if (!data) return null
+
+  const job = data as RecalculateJob
+  if (job.status === "running" && Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS) {
+    return { ...job, status: "failed", error: "The server running this job stopped before it finished" }
+  }
+  return job
+}
+
+// Progress is written through on every batch so polls see it
+async function updateJob(supabase: SupabaseClient, job: RecalculateJob, changes: Partial<RecalculateJob>) {
+  Object.assign(job, changes, { updated_at: new Date().toISOString() })
+  const { id, created_at, ...row } = job
+  const { error } = await supabase.from(JOBS_TABLE).update(row).eq("id", id)
+  if (error) throw jobError(`Could not record recalculation progress: ${error.message}`)
+}
+
+async function runTargetedJob(
+  supabase: SupabaseClient,
+  job: RecalculateJob,
+  config: RecalculateConfig,
+  eventIds: string[],
+) {
+  for (let i = 0; i < eventIds.length; i += job.batch_size) {
+    const chunk = eventIds.slice(i, i + job.batch_size)
+    const result = await runWorkerBatch(config, chunk.length, {
+      event_ids: chunk,
+      ...(job.algorithm_version && { algorithm_version: job.algorithm_version }),
+    })
+    await updateJob(supabase, job, {
+      batches: job.batches + 1,
+      processed: job.processed + result.processed,
+      failed: job.failed + result.failed,
+      remaining: eventIds.length - (i + chunk.length),
+      event_ids: [...job.event_ids, ...(result.eventIds.length > 0 ? result.eventIds : chunk)],
+    })
+  }
+}
+
+/**
+ * Calls the worker batch after batch until it reports an empty queue or a
+ * batch that processed nothing, recording progress on the job as it goes.
+ * Targeted jobs instead send their event ids to the worker in batch-sized chunks.
+ */
+export async function runJob(supabase: SupabaseClient, job: RecalculateJob, config: RecalculateConfig) {
+  try {
+    if (job.target_event_ids) {
+      await runTargetedJob(supabase, job, config, job.target_event_ids)
+      await updateJob(supabase, job, { status: "completed" })
+      return
+    }
+
+    const body = job.algorithm_version ? { algorithm_version: job.algorithm_version } : {}
+    while (job.batches < MAX_BATCHES) {
+      const result = await runWorkerBatch(config, job.batch_size, body)
+      await updateJob(supabase, job, {
+        batches: job.batches + 1,
+        processed: job.processed + result.processed,
+        failed: job.failed + result.failed,
+        remaining: result.remaining,
+        event_ids: [...job.event_ids, ...result.eventIds],
+      })
+      if (result.remaining === 0 || result.processed + result.failed === 0) break
+    }
+    await updateJob(supabase, job, { status: "completed", remaining: job.remaining ?? 0 })
+  } catch (error) {
+    console.error("[v0] Recalculation job failed:", error)
+    const message = error instanceof Error ? error.message : "Recalculation failed"
+    await updateJob(supabase, job, { status: "failed", error: message }).catch((err) =>
+      console.error("[v0] Error recording a failed recalculation job:", err),
+    )
+  }
+}
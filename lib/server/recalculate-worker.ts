@@ -0,0 +1,52 @@
+import { ApiError } from "@/lib/server/api-error"
+import type { RecalculateConfig } from "@/lib/server/recalculate-config"
+
+export type WorkerBatchResult = {
+  processed: number
+  failed: number
+  remaining: number | null
+  eventIds: string[]
+}
+
+const toCount = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null)
+
+/**
+ * Runs one batch of the process_weight_event_worker edge function. The worker
+ * reports processed/failed/remaining counts and, when available, the ids of the
+ * events it touched; missing fields are normalized rather than trusted.
+ */
+export async function runWorkerBatch(
+  config: RecalculateConfig,
+  batch: number,
+  body: Record<string, unknown> = {},
+): Promise<WorkerBatchResult> {
+  const target = new URL(config.functionUrl)
+  target.searchParams.set("batch", String(batch))
+
+  const response = await fetch(target, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-function-secret": config.functionSecret,
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error("[v0] Edge function error:", errorText)
+    throw new ApiError("upstream_error", `Recalculation failed: ${response.statusText}`, 502, {
+      upstreamStatus: response.status,
+    })
+  }
+
+  const data = await response.json().catch(() => ({}))
+  const eventIds = Array.isArray(data.event_ids) ? data.event_ids.filter((id: unknown) => typeof id === "string") : []
+
+  return {
+    processed: toCount(data.processed) ?? eventIds.length,
+    failed: toCount(data.failed) ?? 0,
+    remaining: toCount(data.remaining),
+    eventIds,
+  }
+}
@@ -0,0 +1,536 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+import type { z } from "zod"
+import { ApiError } from "@/lib/server/api-error"
+import {
+  ImportedEventSchema,
+  WeightEventResultSchema,
+  WeightEventSchema,
+  parseRows,
+  parseSamples,
+  type DataPoint,
+  type DataProblem,
+  type WeightEventResult,
+} from "@/lib/domain"
+import { summarizeScales, type ScaleSummary } from "@/lib/scales"
+import { eventHealth, type ScaleHealthSeries } from "@/lib/scale-health"
+import { importedTrendPoint, type ImportFormat } from "@/lib/importers"
+import type { ReportResult } from "@/lib/version-report"
+
+// Typed read access to weight_events and weight_event_results for route
+// handlers. List endpoints return summary fields only; raw samples are loaded
+// one event at a time. Rows that fail validation are returned as `problems`.
+
+export type EventSummary = {
+  id: string
+  started_at: string
+  results?: WeightEventResult
+}
+
+export type EventList = {
+  events: EventSummary[]
+  problems: DataProblem[]
+}
+
+export type EventDetail = EventSummary & {
+  samples: DataPoint[]
+  // Every stored result for the event, newest first
+  history: WeightEventResult[]
+  problems: DataProblem[]
+}
+
+export type EventPage = EventList & {
+  page: number
+  pageSize: number
+  total: number
+  hasMore: boolean
+}
+
+export type ExportFilter = {
+  // Inclusive bounds on started_at, in ms
+  start?: number
+  end?: number
+  // Scale of the latest result; events without a result are left out
+  scaleId?: string
+  eventIds?: string[]
+}
+
+export type TrendPoint = {
+  event_id: string
+  scale_id: string
+  started_at: string
+  raw_stable_weight_kg: number
+  raw_uncertainty_kg: number
+  raw_quality: number
+  // Import format of a weigh-in imported from another app
+  source?: string
+}
+
+const TrendResultSchema = WeightEventResultSchema.pick({
+  event_id: true,
+  scale_id: true,
+  computed_at: true,
+  raw_stable_weight_kg: true,
+  raw_uncertainty_kg: true,
+  raw_quality: true,
+})
+
+const ScaleResultSchema = WeightEventResultSchema.pick({
+  event_id: true,
+  scale_id: true,
+  computed_at: true,
+  mean_std_kg: true,
+  raw_quality: true,
+})
+
+const HealthResultSchema = WeightEventResultSchema.pick({
+  event_id: true,
+  scale_id: true,
+  computed_at: true,
+  raw_stable_weight_kg: true,
+  raw_quality: true,
+  window_start_s: true,
+  mean_std_kg: true,
+})
+
+const ReportResultSchema = WeightEventResultSchema.pick({
+  id: true,
+  event_id: true,
+  algorithm_version: true,
+  computed_at: true,
+  raw_stable_weight_kg: true,
+  raw_quality: true,
+  raw_uncertainty_kg: true,
+  consensus_mode: true,
+})
+
+const EVENT_SUMMARY_COLUMNS = "id, started_at"
+const IMPORTED_EVENT_COLUMNS = "id, started_at, source, weight_kg"
+
+export const MAX_PAGE_SIZE = 100
+
+export function createServerSupabase(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!supabaseUrl || !supabaseKey) {
+    const missing = [!supabaseUrl && "NEXT_PUBLIC_SUPABASE_URL", !supabaseKey && "NEXT_PUBLIC_SUPABASE_ANON_KEY"]
+    throw new ApiError("config_missing", "Supabase is not configured", 500, { missing: missing.filter(Boolean) })
+  }
+
+  return createClient(supabaseUrl, supabaseKey, { auth: { persistSession: false } })
+}
+
+// Server-only client for tables the anon key has no access to, such as
+// recalculate_jobs. The service-role key bypasses row level security, so it
+// must never be given a NEXT_PUBLIC_ name.
+export function createServiceSupabase(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceKey) {
+    const missing = [!supabaseUrl && "NEXT_PUBLIC_SUPABASE_URL", !serviceKey && "SUPABASE_SERVICE_ROLE_KEY"]
+    throw new ApiError("config_missing", "Supabase is not configured", 500, { missing: missing.filter(Boolean) })
+  }
+
+  return createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } })
+}
+
+type QueryError = { message: string; code?: string }
+
+const queryError = (error: QueryError | string) =>
+  typeof error === "string"
+    ? new ApiError("upstream_error", error, 502)
+    : new ApiError("upstream_error", error.message, 502, error.code ? { postgresCode: error.code } : undefined)
+
+// source and weight_kg come from the imported-events migration; until it is
+// applied, reads carry on without imported weigh-ins
+const IMPORTED_EVENTS_MIGRATION = "supabase/migrations/20261019000100_imported_events.sql"
+const MISSING_COLUMN_CODES = new Set(["42703", "PGRST204"])
+const isMissingColumn = (error: unknown) =>
+  error instanceof ApiError && MISSING_COLUMN_CODES.has(String(error.details?.postgresCode))
+
+// PostgREST caps each response (1000 rows by default), so full-table reads page through it
+const FETCH_CHUNK = 1000
+
+async function selectAll(
+  build: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: QueryError | null }>,
+): Promise<unknown[]> {
+  const rows: unknown[] = []
+  for (let from = 0; ; from += FETCH_CHUNK) {
+    const { data, error } = await build(from, from + FETCH_CHUNK - 1)
+    if (error) throw queryError(error)
+    rows.push(...(data ?? []))
+    if (!data || data.length < FETCH_CHUNK) return rows
+  }
+}
+
+// Expects results ordered newest first, so index 0 of each list is the current result
+function groupResultsByEvent<T extends { event_id: string }>(results: T[]) {
+  const historyMap = new Map<string, T[]>()
+  for (const result of results) {
+    const list = historyMap.get(result.event_id)
+    if (list) list.push(result)
+    else historyMap.set(result.event_id, [result])
+  }
+  return historyMap
+}
+
+// Ids are sent in the query string, so long id lists are split up
+const ID_CHUNK = 200
+
+async function latestResults(supabase: SupabaseClient, eventIds: string[]) {
+  if (eventIds.length === 0) return { latest: new Map<string, WeightEventResult>(), problems: [] }
+
+  const data: unknown[] = []
+  for (let i = 0; i < eventIds.length; i += ID_CHUNK) {
+    const ids = eventIds.slice(i, i + ID_CHUNK)
+    data.push(
+      ...(await selectAll((from, to) =>
+        supabase
+          .from("weight_event_results")
+          .select("*")
+          .in("event_id", ids)
+          .order("computed_at", { ascending: false })
+          .range(from, to),
+      )),
+    )
+  }
+
+  const { rows, problems } = parseRows(WeightEventResultSchema, data, "weight_event_results")
+  const latest = new Map<string, WeightEventResult>()
+  for (const [eventId, list] of groupResultsByEvent(rows)) {
+    latest.set(eventId, list[0])
+  }
+  return { latest, problems }
+}
+
+// Validates event rows and attaches each one's latest result
+async function summarize(supabase: SupabaseClient, data: unknown[] | null): Promise<EventList> {
+  const events = parseRows(WeightEventSchema, data, "weight_events")
+  const results = await latestResults(supabase, events.rows.map((row) => row.id))
+  return {
+    events: events.rows.map((row) => ({ id: row.id, started_at: row.started_at, results: results.latest.get(row.id) })),
+    problems: [...events.problems, ...results.problems],
+  }
+}
+
+export async function listEvents(
+  supabase: SupabaseClient,
+  { page, pageSize }: { page: number; pageSize: number },
+): Promise<EventPage> {
+  const from = (page - 1) * pageSize
+  const query = (withoutImported: boolean) => {
+    const select = supabase.from("weight_events").select(EVENT_SUMMARY_COLUMNS, { count: "exact" })
+    // Imported events have no samples to chart
+    return (withoutImported ? select.is("source", null) : select)
+      .order("started_at", { ascending: false })
+      .range(from, from + pageSize - 1)
+  }
+
+  let { data, error, count } = await query(true)
+  if (error && MISSING_COLUMN_CODES.has(error.code)) ({ data, error, count } = await query(false))
+  if (error) throw queryError(error)
+
+  const rows = data ?? []
+  const total = count ?? rows.length
+
+  return {
+    ...(await summarize(supabase, rows)),
+    page,
+    pageSize,
+    total,
+    hasMore: from + rows.length < total,
+  }
+}
+
+export async function getEventsByIds(supabase: SupabaseClient, eventIds: string[]): Promise<EventList> {
+  if (eventIds.length === 0) return { events: [], problems: [] }
+
+  const { data, error } = await supabase
+    .from("weight_events")
+    .select(EVENT_SUMMARY_COLUMNS)
+    .in("id", eventIds)
+    .order("started_at", { ascending: false })
+
+  if (error) throw queryError(error)
+
+  return summarize(supabase, data)
+}
+
+export async function getEventDetail(supabase: SupabaseClient, eventId: string): Promise<EventDetail | null> {
+  const { data: event, error } = await supabase
+    .from("weight_events")
+    .select(`${EVENT_SUMMARY_COLUMNS}, samples`)
+    .eq("id", eventId)
+    .maybeSingle()
+
+  if (error) throw queryError(error)
+  if (!event) return null
+
+  const parsed = parseRows(WeightEventSchema, [event], "weight_events")
+  if (parsed.rows.length === 0) {
+    throw new ApiError("upstream_error", `Weight event ${eventId} is malformed`, 502, { problems: parsed.problems })
+  }
+
+  const { data: history, error: historyError } = await supabase
+    .from("weight_event_results")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("computed_at", { ascending: false })
+
+  if (historyError) throw queryError(historyError)
+
+  const samples = parseSamples(event.samples, eventId)
+  const results = parseRows(WeightEventResultSchema, history, "weight_event_results")
+  return {
+    ...parsed.rows[0],
+    samples: samples.samples,
+    results: results.rows[0],
+    history: results.rows,
+    problems: [...samples.problems, ...results.problems],
+  }
+}
+
+// Latest result of every event, restricted to the columns `schema` picks
+async function latestForAllEvents<S extends z.AnyZodObject>(supabase: SupabaseClient, schema: S) {
+  const columns = Object.keys(schema.shape).join(", ")
+  const [eventRows, resultRows] = await Promise.all([
+    selectAll((from, to) => supabase.from("weight_events").select(EVENT_SUMMARY_COLUMNS).order("id").range(from, to)),
+    selectAll((from, to) =>
+      supabase.from("weight_event_results").select(columns).order("computed_at", { ascending: false }).range(from, to),
+    ),
+  ])
+
+  const events = parseRows(WeightEventSchema, eventRows, "weight_events")
+  const results = parseRows(schema, resultRows, "weight_event_results")
+
+  const startedAt = new Map(events.rows.map((e) => [e.id, e.started_at]))
+  const latest: (z.infer<S> & { started_at: string })[] = []
+  for (const [eventId, list] of groupResultsByEvent(results.rows as (z.infer<S> & { event_id: string })[])) {
+    const started = startedAt.get(eventId)
+    if (started) latest.push({ ...list[0], started_at: started })
+  }
+
+  latest.sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime())
+  return { latest, problems: [...events.problems, ...results.problems] }
+}
+
+/**
+ * Latest stable weight of every event that has a result, oldest first. Only
+ * the handful of columns the trend chart needs are selected.
+ */
+export async function listTrendPoints(
+  supabase: SupabaseClient,
+): Promise<{ points: TrendPoint[]; problems: DataProblem[] }> {
+  const [{ latest, problems }, importedRows] = await Promise.all([
+    latestForAllEvents(supabase, TrendResultSchema),
+    selectAll((from, to) =>
+      supabase
+        .from("weight_events")
+        .select(IMPORTED_EVENT_COLUMNS)
+        .not("source", "is", null)
+        .order("id")
+        .range(from, to),
+    ).catch((error) => {
+      if (isMissingColumn(error)) return []
+      throw error
+    }),
+  ])
+  const imported = parseRows(ImportedEventSchema, importedRows, "weight_events")
+
+  const points: TrendPoint[] = [
+    ...latest.map(({ computed_at, ...point }) => point),
+    ...imported.rows.map(importedTrendPoint),
+  ]
+  points.sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime())
+  return { points, problems: [...problems, ...imported.problems] }
+}
+
+// Every stored result of every version, oldest first, for the version report
+// Every algorithm version with stored results, for the version report's selectors
+export async function listReportVersions(supabase: SupabaseClient): Promise<string[]> {
+  const rows = await selectAll((from, to) =>
+    supabase.from("weight_event_results").select("algorithm_version").order("id").range(from, to),
+  )
+  const versions = new Set<string>()
+  for (const row of rows as { algorithm_version: unknown }[]) {
+    if (typeof row.algorithm_version === "string") versions.add(row.algorithm_version)
+  }
+  return Array.from(versions).sort()
+}
+
+// Results of only the versions being compared, so the report never loads the whole table
+export async function listReportResults(
+  supabase: SupabaseClient,
+  versions: string[],
+): Promise<{ results: ReportResult[]; problems: DataProblem[] }> {
+  const rows = await selectAll((from, to) =>
+    supabase
+      .from("weight_event_results")
+      .select(Object.keys(ReportResultSchema.shape).join(", "))
+      .in("algorithm_version", versions)
+      .order("computed_at", { ascending: true })
+      .order("id")
+      .range(from, to),
+  )
+  const { rows: results, problems } = parseRows(ReportResultSchema, rows, "weight_event_results")
+  return { results, problems }
+}
+
+// Per-scale statistics over the latest result of every event
+export async function listScaleSummaries(
+  supabase: SupabaseClient,
+): Promise<{ scales: ScaleSummary[]; problems: DataProblem[] }> {
+  const { latest, problems } = await latestForAllEvents(supabase, ScaleResultSchema)
+  return { scales: summarizeScales(latest), problems }
+}
+
+// Sample arrays are large, so they are requested a few events at a time
+const SAMPLE_CHUNK = 25
+
+// Yields each event's validated samples, in chunks of SAMPLE_CHUNK events
+export async function* eventSamples(
+  supabase: SupabaseClient,
+  eventIds: string[],
+): AsyncGenerator<{ eventId: string; samples: DataPoint[]; problems: DataProblem[] }> {
+  for (let i = 0; i < eventIds.length; i += SAMPLE_CHUNK) {
+    const ids = eventIds.slice(i, i + SAMPLE_CHUNK)
+    const { data, error } = await supabase.from("weight_events").select("id, samples").in("id", ids)
+    if (error) throw queryError(error)
+    const byId = new Map((data ?? []).map((row) => [row.id as string, row.samples]))
+    for (const id of ids) {
+      if (!byId.has(id)) continue
+      yield { eventId: id, ...parseSamples(byId.get(id), id) }
+    }
+  }
+}
+
+export const MAX_HEALTH_EVENTS = 500
+
+/**
+ * Health metrics of each scale's `limit` most recent events. Needs every one
+ * of those events' samples, so keep `limit` modest.
+ */
+export async function listScaleHealth(
+  supabase: SupabaseClient,
+  { limit }: { limit: number },
+): Promise<{ scales: ScaleHealthSeries[]; problems: DataProblem[] }> {
+  const { latest, problems } = await latestForAllEvents(supabase, HealthResultSchema)
+
+  const byScale = new Map<string, typeof latest>()
+  for (const result of latest) {
+    const list = byScale.get(result.scale_id)
+    if (list) list.push(result)
+    else byScale.set(result.scale_id, [result])
+  }
+  const recent = [...byScale.values()].flatMap((list) => list.slice(-limit))
+
+  const samplesByEvent = new Map<string, DataPoint[]>()
+  for await (const { eventId, samples, problems: sampleProblems } of eventSamples(
+    supabase,
+    recent.map((r) => r.event_id),
+  )) {
+    samplesByEvent.set(eventId, samples)
+    problems.push(...sampleProblems)
+  }
+
+  const scales: ScaleHealthSeries[] = []
+  for (const [scaleId, list] of byScale) {
+    scales.push({
+      scale_id: scaleId,
+      events: list.slice(-limit).map((result) => eventHealth(samplesByEvent.get(result.event_id) ?? [], result)),
+    })
+  }
+  return { scales, problems }
+}
+
+/**
+ * Events matching `filter`, oldest first, each with its latest result. Only
+ * summary columns are read; samples are streamed separately by eventSamples.
+ */
+export async function listExportEvents(supabase: SupabaseClient, filter: ExportFilter): Promise<EventList> {
+  const query = (withoutImported: boolean, ids?: string[]) => (from: number, to: number) => {
+    let q = supabase.from("weight_events").select(EVENT_SUMMARY_COLUMNS)
+    // Imported events have no samples or results to export, as in listEvents
+    if (withoutImported) q = q.is("source", null)
+    if (ids) q = q.in("id", ids)
+    if (filter.start !== undefined) q = q.gte("started_at", new Date(filter.start).toISOString())
+    if (filter.end !== undefined) q = q.lte("started_at", new Date(filter.end).toISOString())
+    return q.order("started_at").range(from, to)
+  }
+
+  const fetchRows = async (withoutImported: boolean) => {
+    if (!filter.eventIds) return selectAll(query(withoutImported))
+    const rows: unknown[] = []
+    for (let i = 0; i < filter.eventIds.length; i += ID_CHUNK) {
+      rows.push(...(await selectAll(query(withoutImported, filter.eventIds.slice(i, i + ID_CHUNK)))))
+    }
+    // Chunks are each ordered; the whole list is not
+    return (rows as { started_at: string }[]).sort((a, b) => Date.parse(a.started_at) - Date.parse(b.started_at))
+  }
+
+  const rows = await fetchRows(true).catch((error) => {
+    if (isMissingColumn(error)) return fetchRows(false)
+    throw error
+  })
+
+  const list = await summarize(supabase, rows)
+  if (filter.scaleId === undefined) return list
+  return { ...list, events: list.events.filter((event) => event.results?.scale_id === filter.scaleId) }
+}
+
+const INSERT_CHUNK = 500
+
+/**
+ * Stores imported weigh-ins as summary-only events. Rows already imported
+ * from the same source at the same time are skipped, whether they were stored
+ * by an earlier import, an earlier batch of this one, or repeat in `rows`;
+ * the unique index on (source, started_at) makes that hold across requests.
+ */
+export async function insertImportedEvents(
+  supabase: SupabaseClient,
+  source: ImportFormat,
+  rows: { started_at: string; weight_kg: number }[],
+): Promise<{ inserted: number; skipped: number }> {
+  const seen = new Set<number>()
+  const unique = rows.filter((row) => {
+    const time = Date.parse(row.started_at)
+    if (seen.has(time)) return false
+    seen.add(time)
+    return true
+  })
+
+  let inserted = 0
+  for (let i = 0; i < unique.length; i += INSERT_CHUNK) {
+    const { data, error } = await supabase
+      .from("weight_events")
+      .upsert(
+        unique.slice(i, i + INSERT_CHUNK).map((row) => ({ ...row, source })),
+        { onConflict: "source,started_at", ignoreDuplicates: true },
+      )
+      .select("id")
+    if (error && (MISSING_COLUMN_CODES.has(error.code) || error.code === "42P10")) {
+      throw new ApiError(
+        "config_missing",
+        `Importing needs the source and weight_kg columns and their unique index; apply ${IMPORTED_EVENTS_MIGRATION}`,
+        500,
+      )
+    }
+    if (error) throw queryError(error)
+    inserted += data?.length ?? 0
+  }
+  return { inserted, skipped: rows.length - inserted }
+}
+
+/** Stores an uploaded capture as a new event; the worker computes its result when queued. */
+export async function insertEvent(
+  supabase: SupabaseClient,
+  event: { started_at: string; samples: DataPoint[] },
+): Promise<EventSummary> {
+  const { data, error } = await supabase.from("weight_events").insert(event).select(EVENT_SUMMARY_COLUMNS).single()
+  if (error) throw queryError(error)
+
+  const { rows, problems } = parseRows(WeightEventSchema, [data], "weight_events")
+  if (rows.length === 0) throw queryError(problems[0]?.message ?? "Inserted event could not be read back")
+  return { id: rows[0].id, started_at: rows[0].started_at }
+}
@@ -0,0 +1,56 @@
+import { inflateRawSync } from "node:zlib"
+import { describe, expect, it } from "vitest"
+import { zipEntries, type ZipEntry } from "@/lib/server/zip"
+
+async function zip(entries: ZipEntry[]) {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of zipEntries(entries, new Date(2024, 2, 4, 7, 15))) chunks.push(chunk)
+  return Buffer.concat(chunks)
+}
+
+// Reads entries back through the central directory, as unzip does
+function unzip(archive: Buffer): Record<string, string> {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  const count = archive.readUInt16LE(end + 10)
+  let at = archive.readUInt32LE(end + 16)
+  const files: Record<string, string> = {}
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(at)).toBe(0x02014b50)
+    const compressed = archive.readUInt32LE(at + 20)
+    const nameLength = archive.readUInt16LE(at + 28)
+    const extraLength = archive.readUInt16LE(at + 30)
+    const commentLength = archive.readUInt16LE(at + 32)
+    const local = archive.readUInt32LE(at + 42)
+    const name = archive.toString("utf8", at + 46, at + 46 + nameLength)
+
+    const dataStart = local + 30 + archive.readUInt16LE(local + 26) + archive.readUInt16LE(local + 28)
+    files[name] = inflateRawSync(archive.subarray(dataStart, dataStart + compressed)).toString("utf8")
+    at += 46 + nameLength + extraLength + commentLength
+  }
+  return files
+}
+
+describe("zipEntries", () => {
+  it("round-trips strings, bytes and streamed chunks", async () => {
+    async function* lines() {
+      for (let i = 0; i < 1000; i++) yield `${i},72.4\n`
+    }
+    const archive = await zip([
+      { name: "manifest.json", content: '{"events":2}' },
+      { name: "bytes.bin", content: new TextEncoder().encode("raw bytes") },
+      { name: "samples/ünïcode.csv", content: lines() },
+    ])
+
+    const files = unzip(archive)
+    expect(Object.keys(files)).toEqual(["manifest.json", "bytes.bin", "samples/ünïcode.csv"])
+    expect(files["manifest.json"]).toBe('{"events":2}')
+    expect(files["bytes.bin"]).toBe("raw bytes")
+    expect(files["samples/ünïcode.csv"].split("\n")).toHaveLength(1001)
+  })
+
+  it("writes an empty archive", async () => {
+    const archive = await zip([])
+    expect(archive).toHaveLength(22)
+    expect(archive.readUInt32LE(0)).toBe(0x06054b50)
+  })
+})
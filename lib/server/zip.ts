@@ -0,0 +1,129 @@
+import { once } from "node:events"
+import { createDeflateRaw } from "node:zlib"
+
+// Minimal streaming zip writer for export bundles: deflated entries, no zip64,
+// so each entry and the whole archive must stay under 4 GB. Entry contents are
+// compressed as they arrive; sizes and CRC follow each entry in a data
+// descriptor (flag bit 3), so no entry is ever held in memory whole.
+
+type ZipChunk = string | Uint8Array
+
+export type ZipEntry = { name: string; content: ZipChunk | AsyncIterable<ZipChunk> | Iterable<ZipChunk> }
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+// Continues `crc` over data, so chunks can be checksummed as they stream
+function crc32(data: Uint8Array, crc = 0) {
+  let c = crc ^ 0xffffffff
+  for (const byte of data) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields, in local time
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+const METHOD_DEFLATE = 8
+// Bit 3: CRC and sizes are in a data descriptor after the entry. Bit 11: names are UTF-8.
+const FLAGS = 0x0008 | 0x0800
+const MAX_SIZE = 0xffffffff
+
+async function* toBuffers(content: ZipEntry["content"]): AsyncGenerator<Buffer> {
+  const chunks = typeof content === "string" || content instanceof Uint8Array ? [content] : content
+  for await (const chunk of chunks) {
+    yield typeof chunk === "string" ? Buffer.from(chunk, "utf8") : Buffer.from(chunk)
+  }
+}
+
+/**
+ * Deflates an entry's content, yielding compressed output as it is produced
+ * and tallying the uncompressed size and CRC into `stats`.
+ */
+async function* deflateEntry(content: ZipEntry["content"], stats: { crc: number; size: number }) {
+  const deflate = createDeflateRaw()
+  const output: Buffer[] = []
+  deflate.on("data", (chunk: Buffer) => output.push(chunk))
+
+  for await (const chunk of toBuffers(content)) {
+    if (chunk.length === 0) continue
+    stats.crc = crc32(chunk, stats.crc)
+    stats.size += chunk.length
+    if (!deflate.write(chunk)) await once(deflate, "drain")
+    yield* output.splice(0)
+  }
+  const ended = once(deflate, "end")
+  deflate.end()
+  await ended
+  yield* output.splice(0)
+}
+
+export async function* zipEntries(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>, modified = new Date()) {
+  const { time, day } = dosDateTime(modified)
+  const central: Buffer[] = []
+  let offset = 0
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8")
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(FLAGS, 6)
+    local.writeUInt16LE(METHOD_DEFLATE, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(day, 12)
+    local.writeUInt16LE(name.length, 26)
+    yield new Uint8Array(Buffer.concat([local, name]))
+
+    const stats = { crc: 0, size: 0 }
+    let compressedSize = 0
+    for await (const chunk of deflateEntry(entry.content, stats)) {
+      compressedSize += chunk.length
+      yield new Uint8Array(chunk)
+    }
+    if (stats.size > MAX_SIZE || compressedSize > MAX_SIZE) {
+      throw new Error(`${entry.name} is over 4 GB, which needs zip64`)
+    }
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(stats.crc, 4)
+    descriptor.writeUInt32LE(compressedSize, 8)
+    descriptor.writeUInt32LE(stats.size, 12)
+    yield new Uint8Array(descriptor)
+
+    const header = Buffer.alloc(46)
+    header.writeUInt32LE(0x02014b50, 0)
+    header.writeUInt16LE(20, 4)
+    header.writeUInt16LE(20, 6)
+    header.writeUInt16LE(FLAGS, 8)
+    header.writeUInt16LE(METHOD_DEFLATE, 10)
+    header.writeUInt16LE(time, 12)
+    header.writeUInt16LE(day, 14)
+    header.writeUInt32LE(stats.crc, 16)
+    header.writeUInt32LE(compressedSize, 20)
+    header.writeUInt32LE(stats.size, 24)
+    header.writeUInt16LE(name.length, 28)
+    header.writeUInt32LE(offset, 42)
+    central.push(header, name)
+
+    offset += local.length + name.length + compressedSize + descriptor.length
+    if (offset > MAX_SIZE) throw new Error("The archive is over 4 GB, which needs zip64")
+  }
+
+  const directory = Buffer.concat(central)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(central.length / 2, 8)
+  end.writeUInt16LE(central.length / 2, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  yield new Uint8Array(Buffer.concat([directory, end]))
+}
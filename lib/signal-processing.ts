@@ -0,0 +1,118 @@
+import type { DataPoint } from "@/lib/domain"
+import { DEFAULT_STABLE_WEIGHT_OPTIONS, windowStats, type StableWeightOptions } from "@/lib/stable-weight"
+
+// Sample-level views of a weigh-in for DataChart's processing panel: a
+// filtered signal, its first derivative and a rolling standard deviation.
+// Sample times are in milliseconds, like everywhere else.
+
+export type SignalFilter = "none" | "low-pass" | "median"
+
+export const SIGNAL_FILTERS: { id: SignalFilter; label: string }[] = [
+  { id: "none", label: "None" },
+  { id: "low-pass", label: "Low-pass" },
+  { id: "median", label: "Median" },
+]
+
+// Thresholds that can be tuned from the panel; the rest keep the algorithm's defaults
+export type StabilityThresholds = Pick<
+  StableWeightOptions,
+  "windowS" | "maxSlopeKgPerS" | "maxStdKg" | "minWeightKg" | "minDurationS"
+>
+
+export type SignalProcessingSettings = {
+  filter: SignalFilter
+  cutoffHz: number
+  medianWindowMs: number
+  showDerivative: boolean
+  showRollingStd: boolean
+  showStable: boolean
+  thresholds: StabilityThresholds
+}
+
+export const DEFAULT_SIGNAL_PROCESSING: SignalProcessingSettings = {
+  filter: "low-pass",
+  cutoffHz: 2,
+  medianWindowMs: 200,
+  showDerivative: true,
+  showRollingStd: true,
+  showStable: true,
+  thresholds: {
+    windowS: DEFAULT_STABLE_WEIGHT_OPTIONS.windowS,
+    maxSlopeKgPerS: DEFAULT_STABLE_WEIGHT_OPTIONS.maxSlopeKgPerS,
+    maxStdKg: DEFAULT_STABLE_WEIGHT_OPTIONS.maxStdKg,
+    minWeightKg: DEFAULT_STABLE_WEIGHT_OPTIONS.minWeightKg,
+    minDurationS: DEFAULT_STABLE_WEIGHT_OPTIONS.minDurationS,
+  },
+}
+
+export type ProcessedPoint = DataPoint & {
+  filtered?: number
+  // kg/s
+  derivative?: number
+  rollingStd?: number
+}
+
+/**
+ * One-pole low-pass run forwards and then backwards, so the filtered signal
+ * has no lag against the raw samples. Uneven sample spacing is accounted for.
+ */
+export function lowPass(samples: DataPoint[], cutoffHz: number): number[] {
+  const out = samples.map((s) => s.kg)
+  if (out.length === 0 || !(cutoffHz > 0)) return out
+
+  const alpha = (i: number, j: number) =>
+    1 - Math.exp((-2 * Math.PI * cutoffHz * Math.abs(samples[i].t - samples[j].t)) / 1000)
+  for (let i = 1; i < out.length; i++) out[i] = out[i - 1] + alpha(i, i - 1) * (out[i] - out[i - 1])
+  for (let i = out.length - 2; i >= 0; i--) out[i] = out[i + 1] + alpha(i, i + 1) * (out[i] - out[i + 1])
+  return out
+}
+
+/** Median of the samples within windowMs centred on each sample; removes spikes without smearing steps. */
+export function medianFilter(samples: DataPoint[], windowMs: number): number[] {
+  const half = windowMs / 2
+  let lo = 0
+  let hi = 0
+  return samples.map((s) => {
+    while (samples[lo].t < s.t - half) lo++
+    while (hi < samples.length && samples[hi].t <= s.t + half) hi++
+    const values = samples
+      .slice(lo, hi)
+      .map((p) => p.kg)
+      .sort((a, b) => a - b)
+    const mid = values.length >> 1
+    return values.length % 2 === 1 ? values[mid] : (values[mid - 1] + values[mid]) / 2
+  })
+}
+
+/**
+ * Filters samples and adds the derivative and rolling std. Both come from the
+ * least-squares fit over a window of thresholds.windowS centred on each sample,
+ * the same statistics computeStableWeight compares against maxSlopeKgPerS and
+ * maxStdKg, so the curves can be read directly against those thresholds.
+ */
+export function processSignal(samples: DataPoint[], settings: SignalProcessingSettings): ProcessedPoint[] {
+  const filtered =
+    settings.filter === "low-pass"
+      ? lowPass(samples, settings.cutoffHz)
+      : settings.filter === "median"
+        ? medianFilter(samples, settings.medianWindowMs)
+        : null
+  const withRolling = settings.showDerivative || settings.showRollingStd
+
+  const half = (settings.thresholds.windowS * 1000) / 2
+  let lo = 0
+  let hi = 0
+  return samples.map((s, i) => {
+    const point: ProcessedPoint = { ...s }
+    if (filtered) point.filtered = filtered[i]
+    if (!withRolling) return point
+
+    while (samples[lo].t < s.t - half) lo++
+    while (hi < samples.length && samples[hi].t <= s.t + half) hi++
+    const stats = windowStats(samples.slice(lo, hi))
+    if (!stats || stats.count < 3) return point
+    if (settings.showDerivative) point.derivative = stats.slope
+    if (settings.showRollingStd) point.rollingStd = stats.std
+    return point
+  })
+}
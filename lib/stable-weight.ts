@@ -0,0 +1,383 @@
+import type { DataPoint } from "@/lib/domain"
+
+// Local TypeScript port of the stable-weight algorithm run by the
+// process_weight_event_worker edge function. Sample times are in milliseconds,
+// result windows are reported in seconds, matching weight_event_results.
+
+export const LOCAL_ALGORITHM_VERSION = "local-ts-1"
+
+export type StableWeightOptions = {
+  windowS: number
+  stepS: number
+  maxSlopeKgPerS: number
+  maxStdKg: number
+  minWeightKg: number
+  minDurationS: number
+  targetDurationS: number
+  consensusBandKg: number
+}
+
+export const DEFAULT_STABLE_WEIGHT_OPTIONS: StableWeightOptions = {
+  windowS: 1,
+  stepS: 0.25,
+  maxSlopeKgPerS: 0.05,
+  maxStdKg: 0.05,
+  minWeightKg: 9,
+  minDurationS: 1,
+  targetDurationS: 3,
+  consensusBandKg: 0.1,
+}
+
+export type StableWeightResult = {
+  mode: string
+  raw_stable_weight_kg: number
+  raw_uncertainty_kg: number
+  raw_quality: number
+  window_start_s: number
+  window_end_s: number
+  duration_s: number
+  mean_slope_kg_per_s: number
+  mean_std_kg: number
+  n_points: number
+  consensus_weight_kg: number | null
+  consensus_uncertainty_kg: number | null
+  consensus_band_kg: number | null
+  consensus_mode: string | null
+  consensus_window_start_s: number | null
+  consensus_window_end_s: number | null
+  consensus_duration_s: number | null
+}
+
+type WindowStats = {
+  startMs: number
+  endMs: number
+  mean: number
+  std: number
+  slope: number
+  count: number
+}
+
+type StableRun = WindowStats & {
+  windows: WindowStats[]
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v))
+
+export function windowStats(samples: DataPoint[]): WindowStats | null {
+  const n = samples.length
+  if (n === 0) return null
+
+  let sumT = 0
+  let sumKg = 0
+  for (const s of samples) {
+    sumT += s.t / 1000
+    sumKg += s.kg
+  }
+  const meanT = sumT / n
+  const mean = sumKg / n
+
+  let sxx = 0
+  let sxy = 0
+  let ss = 0
+  for (const s of samples) {
+    const dt = s.t / 1000 - meanT
+    const dk = s.kg - mean
+    sxx += dt * dt
+    sxy += dt * dk
+    ss += dk * dk
+  }
+
+  return {
+    startMs: samples[0].t,
+    endMs: samples[n - 1].t,
+    mean,
+    std: Math.sqrt(ss / n),
+    slope: sxx > 0 ? sxy / sxx : 0,
+    count: n,
+  }
+}
+
+function slidingWindows(samples: DataPoint[], opts: StableWeightOptions): WindowStats[] {
+  const out: WindowStats[] = []
+  if (samples.length === 0) return out
+
+  const windowMs = opts.windowS * 1000
+  const stepMs = opts.stepS * 1000
+  const last = samples[samples.length - 1].t
+
+  let lo = 0
+  for (let start = samples[0].t; start + windowMs <= last + stepMs; start += stepMs) {
+    while (lo < samples.length && samples[lo].t < start) lo++
+    let hi = lo
+    while (hi < samples.length && samples[hi].t < start + windowMs) hi++
+    const stats = windowStats(samples.slice(lo, hi))
+    if (stats && stats.count >= 3) out.push(stats)
+  }
+  return out
+}
+
+function isStable(w: WindowStats, opts: StableWeightOptions) {
+  return Math.abs(w.slope) <= opts.maxSlopeKgPerS && w.std <= opts.maxStdKg && w.mean >= opts.minWeightKg
+}
+
+function stableRuns(samples: DataPoint[], windows: WindowStats[], opts: StableWeightOptions): StableRun[] {
+  const runs: StableRun[] = []
+  let current: WindowStats[] = []
+
+  const flush = () => {
+    if (current.length === 0) return
+    const startMs = current[0].startMs
+    const endMs = current[current.length - 1].endMs
+    const stats = windowStats(samples.filter((s) => s.t >= startMs && s.t <= endMs))
+    if (stats && (endMs - startMs) / 1000 >= opts.minDurationS) {
+      runs.push({ ...stats, windows: current })
+    }
+    current = []
+  }
+
+  for (const w of windows) {
+    const prev = current[current.length - 1]
+    if (isStable(w, opts) && (!prev || w.startMs <= prev.endMs)) {
+      current.push(w)
+    } else {
+      flush()
+      if (isStable(w, opts)) current.push(w)
+    }
+  }
+  flush()
+
+  return runs
+}
+
+function runUncertainty(run: WindowStats) {
+  const durationS = (run.endMs - run.startMs) / 1000
+  const sem = run.std / Math.sqrt(run.count)
+  const drift = (Math.abs(run.slope) * durationS) / 2
+  return Math.sqrt(sem * sem + drift * drift)
+}
+
+function runQuality(run: StableRun | WindowStats, opts: StableWeightOptions) {
+  const durationS = (run.endMs - run.startMs) / 1000
+  const stdScore = clamp01(1 - run.std / opts.maxStdKg)
+  const slopeScore = clamp01(1 - Math.abs(run.slope) / opts.maxSlopeKgPerS)
+  const durationScore = clamp01(durationS / opts.targetDurationS)
+  return 0.4 * stdScore + 0.3 * slopeScore + 0.3 * durationScore
+}
+
+/**
+ * Computes the stable weight of a single weigh-in from its raw samples.
+ * Returns null when there are too few samples to form a single window.
+ */
+export function computeStableWeight(
+  samples: DataPoint[],
+  options: Partial<StableWeightOptions> = {},
+): StableWeightResult | null {
+  const opts = { ...DEFAULT_STABLE_WEIGHT_OPTIONS, ...options }
+  const clean = samples
+    .filter((s) => Number.isFinite(s.t) && Number.isFinite(s.kg))
+    .sort((a, b) => a.t - b.t)
+
+  const windows = slidingWindows(clean, opts)
+  if (windows.length === 0) return null
+
+  const runs = stableRuns(clean, windows, opts)
+
+  if (runs.length === 0) {
+    // Nothing met the stability thresholds: fall back to the quietest loaded window
+    const loaded = windows.filter((w) => w.mean >= opts.minWeightKg)
+    const candidates = loaded.length > 0 ? loaded : windows
+    const best = candidates.reduce((a, b) => (b.std < a.std ? b : a))
+    return {
+      mode: "fallback",
+      raw_stable_weight_kg: best.mean,
+      raw_uncertainty_kg: runUncertainty(best),
+      raw_quality: runQuality(best, opts),
+      window_start_s: best.startMs / 1000,
+      window_end_s: best.endMs / 1000,
+      duration_s: (best.endMs - best.startMs) / 1000,
+      mean_slope_kg_per_s: best.slope,
+      mean_std_kg: best.std,
+      n_points: best.count,
+      consensus_weight_kg: null,
+      consensus_uncertainty_kg: null,
+      consensus_band_kg: null,
+      consensus_mode: null,
+      consensus_window_start_s: null,
+      consensus_window_end_s: null,
+      consensus_duration_s: null,
+    }
+  }
+
+  const best = runs.reduce((a, b) => {
+    const da = a.endMs - a.startMs
+    const db = b.endMs - b.startMs
+    if (db !== da) return db > da ? b : a
+    return b.std < a.std ? b : a
+  })
+
+  const agreeing = runs.filter((r) => Math.abs(r.mean - best.mean) <= opts.consensusBandKg)
+  const totalCount = agreeing.reduce((sum, r) => sum + r.count, 0)
+  const consensusWeight = agreeing.reduce((sum, r) => sum + r.mean * r.count, 0) / totalCount
+  const spread = Math.sqrt(
+    agreeing.reduce((sum, r) => sum + r.count * (r.mean - consensusWeight) ** 2, 0) / totalCount,
+  )
+  const consensusSem = Math.sqrt(agreeing.reduce((sum, r) => sum + runUncertainty(r) ** 2, 0)) / agreeing.length
+  const means = agreeing.map((r) => r.mean)
+
+  return {
+    mode: "stable",
+    raw_stable_weight_kg: best.mean,
+    raw_uncertainty_kg: runUncertainty(best),
+    raw_quality: runQuality(best, opts),
+    window_start_s: best.startMs / 1000,
+    window_end_s: best.endMs / 1000,
+    duration_s: (best.endMs - best.startMs) / 1000,
+    mean_slope_kg_per_s: best.windows.reduce((sum, w) => sum + w.slope, 0) / best.windows.length,
+    mean_std_kg: best.windows.reduce((sum, w) => sum + w.std, 0) / best.windows.length,
+    n_points: best.count,
+    consensus_weight_kg: consensusWeight,
+    consensus_uncertainty_kg: Math.sqrt(consensusSem * consensusSem + spread * spread),
+    consensus_band_kg: Math.max(...means) - Math.min(...means),
+    consensus_mode: agreeing.length > 1 ? "multi" : "single",
+    consensus_window_start_s: Math.min(...agreeing.map((r) => r.startMs)) / 1000,
+    consensus_window_end_s: Math.max(...agreeing.map((r) => r.endMs)) / 1000,
+    consensus_duration_s: agreeing.reduce((sum, r) => sum + (r.endMs - r.startMs), 0) / 1000,
+  }
+}
+
+/**
+ * The stretches computeStableWeight chooses between: runs of windows within
+ * the slope, std and load thresholds that last at least minDurationS.
+ */
+export function stableRegions(
+  samples: DataPoint[],
+  options: Partial<StableWeightOptions> = {},
+): { startMs: number; endMs: number; meanKg: number }[] {
+  const opts = { ...DEFAULT_STABLE_WEIGHT_OPTIONS, ...options }
+  const clean = samples
+    .filter((s) => Number.isFinite(s.t) && Number.isFinite(s.kg))
+    .sort((a, b) => a.t - b.t)
+  return stableRuns(clean, slidingWindows(clean, opts), opts).map((run) => ({
+    startMs: run.startMs,
+    endMs: run.endMs,
+    meanKg: run.mean,
+  }))
+}
+
+export type LiveStability = {
+  state: "waiting" | "settling" | "stable"
+  slopeKgPerS: number | null
+  stdKg: number | null
+  // Seconds the trailing windows have stayed within the stability thresholds
+  stableForS: number
+  provisionalKg: number | null
+  provisionalUncertaintyKg: number | null
+  // Start of the current stable stretch, in sample time (ms)
+  stableSinceMs: number | null
+}
+
+/**
+ * Stability of a weigh-in that is still streaming, judged on the trailing
+ * window with the same slope and std thresholds as computeStableWeight. Once
+ * the trailing windows have been stable for minDurationS the mean of that
+ * stretch is reported as a provisional weight.
+ */
+export function liveStability(samples: DataPoint[], options: Partial<StableWeightOptions> = {}): LiveStability {
+  const opts = { ...DEFAULT_STABLE_WEIGHT_OPTIONS, ...options }
+  const waiting: LiveStability = {
+    state: "waiting",
+    slopeKgPerS: null,
+    stdKg: null,
+    stableForS: 0,
+    provisionalKg: null,
+    provisionalUncertaintyKg: null,
+    stableSinceMs: null,
+  }
+  if (samples.length === 0) return waiting
+
+  const windowMs = opts.windowS * 1000
+  const stepMs = opts.stepS * 1000
+  const first = samples[0].t
+  const last = samples[samples.length - 1].t
+
+  // Walk windows backwards from the newest sample while they stay stable
+  let hi = samples.length
+  let latest: WindowStats | null = null
+  let stableSinceMs: number | null = null
+  for (let end = last; end - windowMs >= first - stepMs; end -= stepMs) {
+    while (hi > 0 && samples[hi - 1].t > end) hi--
+    let lo = hi
+    while (lo > 0 && samples[lo - 1].t >= end - windowMs) lo--
+    const stats = windowStats(samples.slice(lo, hi))
+    if (!stats || stats.count < 3) break
+    latest ??= stats
+    if (!isStable(stats, opts)) break
+    stableSinceMs = stats.startMs
+  }
+
+  if (!latest) return waiting
+  const base = { ...waiting, slopeKgPerS: latest.slope, stdKg: latest.std }
+  if (latest.mean < opts.minWeightKg) return base
+  if (stableSinceMs === null) return { ...base, state: "settling" }
+
+  const stableForS = (last - stableSinceMs) / 1000
+  if (stableForS < opts.minDurationS) return { ...base, state: "settling", stableForS, stableSinceMs }
+
+  const since = stableSinceMs
+  const stretch = windowStats(samples.filter((s) => s.t >= since))!
+  return {
+    ...base,
+    state: "stable",
+    stableForS,
+    stableSinceMs,
+    provisionalKg: stretch.mean,
+    provisionalUncertaintyKg: runUncertainty(stretch),
+  }
+}
+
+export type ResultFieldComparison = {
+  field: keyof StableWeightResult
+  stored: number | string | null
+  local: number | string | null
+  delta: number | null
+  matches: boolean
+}
+
+// Absolute tolerance per numeric field; strings must match exactly
+export const RESULT_FIELD_TOLERANCES: Record<keyof StableWeightResult, number> = {
+  mode: 0,
+  raw_stable_weight_kg: 0.005,
+  raw_uncertainty_kg: 0.005,
+  raw_quality: 0.02,
+  window_start_s: 0.1,
+  window_end_s: 0.1,
+  duration_s: 0.1,
+  mean_slope_kg_per_s: 0.005,
+  mean_std_kg: 0.005,
+  n_points: 2,
+  consensus_weight_kg: 0.005,
+  consensus_uncertainty_kg: 0.005,
+  consensus_band_kg: 0.005,
+  consensus_mode: 0,
+  consensus_window_start_s: 0.1,
+  consensus_window_end_s: 0.1,
+  consensus_duration_s: 0.1,
+}
+
+export function compareResults(
+  stored: Partial<StableWeightResult> | null | undefined,
+  local: StableWeightResult | null,
+): ResultFieldComparison[] {
+  const fields = Object.keys(RESULT_FIELD_TOLERANCES) as (keyof StableWeightResult)[]
+
+  return fields.map((field) => {
+    const s = stored?.[field] ?? null
+    const l = local?.[field] ?? null
+
+    if (typeof s === "number" && typeof l === "number") {
+      const delta = l - s
+      return { field, stored: s, local: l, delta, matches: Math.abs(delta) <= RESULT_FIELD_TOLERANCES[field] }
+    }
+    return { field, stored: s, local: l, delta: null, matches: s === l }
+  })
+}
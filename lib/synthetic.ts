@@ -0,0 +1,202 @@
+import type { DataPoint } from "@/lib/domain"
+import { gaussian, smoothstep } from "@/lib/sample-source"
+
+// Reproducible synthetic weigh-ins for exercising the stable-weight algorithm,
+// the estimators and the charts. Everything random is drawn from generators
+// seeded from one seed, so a seed and the options recreate the exact same
+// samples.
+
+export type SyntheticFeature =
+  | "step-on"
+  | "settling"
+  | "sway"
+  | "step-off"
+  | "weight-shift"
+  | "pet"
+  | "spikes"
+  | "dropouts"
+
+export const SYNTHETIC_FEATURES: { id: SyntheticFeature; label: string; description: string }[] = [
+  { id: "step-on", label: "Step-on ramp", description: "Empty platform, then a ramp with a small overshoot" },
+  { id: "settling", label: "Settling oscillation", description: "Decaying swing right after stepping on" },
+  { id: "sway", label: "Body sway", description: "Slow, continuous drift while standing" },
+  { id: "step-off", label: "Step-off", description: "Ramp back to an empty platform at the end" },
+  { id: "weight-shift", label: "Weight shift", description: "The person leans or shifts their feet once" },
+  { id: "pet", label: "Pet jumps on", description: "A few kg added for a couple of seconds" },
+  { id: "spikes", label: "Sensor spikes", description: "Single-sample outliers of several kg" },
+  { id: "dropouts", label: "Dropped samples", description: "Gaps where samples never arrived" },
+]
+
+export type SyntheticWeighInOptions = {
+  seed: number
+  features: SyntheticFeature[]
+  targetKg: number
+  rateHz: number
+  // Standard deviation of the gaussian sensor noise
+  noiseKg: number
+  // Time standing still, between settling and stepping off
+  holdS: number
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticWeighInOptions = {
+  seed: 1,
+  features: ["step-on", "settling", "sway", "step-off"],
+  targetKg: 72.4,
+  rateHz: 25,
+  noiseKg: 0.012,
+  holdS: 5,
+}
+
+export type SyntheticWeighIn = {
+  options: SyntheticWeighInOptions
+  samples: DataPoint[]
+  // The weight an algorithm should report
+  trueKg: number
+  // Where each disturbance landed, in seconds from the first sample
+  disturbances: { feature: SyntheticFeature; startS: number; endS: number }[]
+}
+
+const LEAD_S = 0.5
+const STEP_ON_S = 1
+const SETTLE_S = 2.5
+const STEP_OFF_S = 0.6
+const SPIKE_RATE = 0.01
+const DROPOUT_RATE = 0.008
+
+// Offsets that split one seed into independent streams, so turning spikes or
+// dropouts on does not change the noise, or the other, for the same seed
+const NOISE_STREAM = 0x9e3779b9
+const SPIKE_STREAM = 0x85ebca6b
+const DROPOUT_STREAM = 0xc2b2ae35
+
+// gaussian() sums four uniforms, whose variance is 4/12; this scales it to 1
+const unitGaussian = (random: () => number) => gaussian(random) * Math.sqrt(3)
+
+/** mulberry32: a small, fast generator that is plenty for test signals. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31)
+
+export function generateSyntheticWeighIn(options: Partial<SyntheticWeighInOptions> = {}): SyntheticWeighIn {
+  const opts = { ...DEFAULT_SYNTHETIC_OPTIONS, ...options }
+  const { targetKg, rateHz, noiseKg, holdS } = opts
+  const has = new Set(opts.features)
+  const random = seededRandom(opts.seed)
+  const noiseRandom = seededRandom(opts.seed ^ NOISE_STREAM)
+  const spikeRandom = seededRandom(opts.seed ^ SPIKE_STREAM)
+  const dropoutRandom = seededRandom(opts.seed ^ DROPOUT_STREAM)
+  const between = (min: number, max: number, from = random) => min + from() * (max - min)
+
+  const leadS = has.has("step-on") ? LEAD_S : 0
+  const stepOnS = has.has("step-on") ? STEP_ON_S : 0
+  const settleStart = leadS + stepOnS
+  const holdStart = settleStart + (has.has("settling") ? SETTLE_S : 0)
+  const offStart = holdStart + holdS
+  const totalS = offStart + (has.has("step-off") ? STEP_OFF_S : 0)
+
+  // Disturbances are drawn up front whether or not they are enabled, so
+  // toggling one feature does not move the others
+  const disturbances: SyntheticWeighIn["disturbances"] = []
+  const swayPhases = [between(0, 2 * Math.PI), between(0, 2 * Math.PI)]
+  const shift = { startS: holdStart + between(0.2, 0.6) * holdS, durationS: between(0.6, 1.2), kg: between(-0.8, 0.8) }
+  if (has.has("weight-shift")) {
+    disturbances.push({ feature: "weight-shift", startS: shift.startS, endS: shift.startS + shift.durationS })
+  }
+  const pet = { startS: holdStart + between(0.1, 0.5) * holdS, durationS: between(1.5, 3), kg: between(3, 7) }
+  if (has.has("pet")) {
+    disturbances.push({ feature: "pet", startS: pet.startS, endS: Math.min(offStart, pet.startS + pet.durationS) })
+  }
+
+  const samples: DataPoint[] = []
+  let droppedUntil = -1
+  for (let i = 0; i * (1 / rateHz) <= totalS; i++) {
+    const tS = i / rateHz
+    let kg: number
+    if (tS < leadS) {
+      kg = 0
+    } else if (tS < settleStart) {
+      kg = targetKg * 1.03 * smoothstep((tS - leadS) / stepOnS)
+    } else if (tS < offStart) {
+      kg = targetKg
+      if (has.has("settling") && tS < holdStart + SETTLE_S) {
+        const since = tS - settleStart
+        kg += 0.03 * targetKg * Math.exp((-3 * since) / SETTLE_S) * Math.cos(2 * Math.PI * 1.4 * since)
+      }
+    } else {
+      kg = targetKg * (1 - smoothstep(Math.min(1, (tS - offStart) / STEP_OFF_S)))
+    }
+
+    const loaded = tS >= settleStart && tS < offStart
+    if (loaded && has.has("sway")) {
+      kg +=
+        0.04 * Math.sin(2 * Math.PI * 0.35 * tS + swayPhases[0]) +
+        0.02 * Math.sin(2 * Math.PI * 0.9 * tS + swayPhases[1])
+    }
+    if (loaded && has.has("weight-shift") && tS >= shift.startS && tS < shift.startS + shift.durationS) {
+      kg += shift.kg * Math.sin((Math.PI * (tS - shift.startS)) / shift.durationS)
+    }
+    if (loaded && has.has("pet") && tS >= pet.startS && tS < pet.startS + pet.durationS) {
+      // Quick jump on and off, with a little bounce on landing
+      const x = (tS - pet.startS) / pet.durationS
+      const envelope = smoothstep(Math.min(1, x / 0.08)) * (1 - smoothstep(Math.max(0, (x - 0.92) / 0.08)))
+      kg += pet.kg * envelope + 0.2 * pet.kg * Math.exp(-8 * x) * Math.sin(2 * Math.PI * 3 * x * pet.durationS)
+    }
+
+    kg = Math.max(0, kg + unitGaussian(noiseRandom) * noiseKg)
+    if (has.has("spikes") && spikeRandom() < SPIKE_RATE) {
+      kg += (spikeRandom() < 0.5 ? -1 : 1) * between(2, 10, spikeRandom)
+    }
+    if (has.has("dropouts") && i > droppedUntil && dropoutRandom() < DROPOUT_RATE) {
+      droppedUntil = i + Math.round(between(0.1, 0.8, dropoutRandom) * rateHz)
+      disturbances.push({ feature: "dropouts", startS: tS, endS: droppedUntil / rateHz })
+    }
+    if (i <= droppedUntil) continue
+
+    samples.push({ t: Math.round(tS * 1000), kg })
+  }
+
+  return { options: opts, samples, trueKg: targetKg, disturbances }
+}
+
+// Options in the URL query, so a generated weigh-in can be bookmarked or
+// attached to a bug report: ?seed=42&f=step-on,pet&kg=72.4&hz=25&noise=0.012&hold=5
+export function parseSyntheticOptions(params: URLSearchParams): SyntheticWeighInOptions {
+  const number = (key: string, fallback: number, min: number, max: number) => {
+    const value = Number(params.get(key))
+    return params.has(key) && Number.isFinite(value) && value >= min && value <= max ? value : fallback
+  }
+  const d = DEFAULT_SYNTHETIC_OPTIONS
+  const known = new Set<string>(SYNTHETIC_FEATURES.map((feature) => feature.id))
+  const features = params.has("f")
+    ? (params.get("f") ?? "").split(",").filter((id): id is SyntheticFeature => known.has(id))
+    : d.features
+
+  return {
+    seed: Math.floor(number("seed", d.seed, 0, 2 ** 32 - 1)),
+    features,
+    targetKg: number("kg", d.targetKg, 1, 500),
+    rateHz: number("hz", d.rateHz, 1, 200),
+    noiseKg: number("noise", d.noiseKg, 0, 5),
+    holdS: number("hold", d.holdS, 0.5, 120),
+  }
+}
+
+export function serializeSyntheticOptions(options: SyntheticWeighInOptions): URLSearchParams {
+  return new URLSearchParams({
+    seed: String(options.seed),
+    f: options.features.join(","),
+    kg: String(options.targetKg),
+    hz: String(options.rateHz),
+    noise: String(options.noiseKg),
+    hold: String(options.holdS),
+  })
+}
@@ -0,0 +1,88 @@
+import { toDay } from "@/lib/view-state"
+
+// Morning and evening buckets for weigh-ins. Weight rises through the day
+// with food and water, so comparing like with like means comparing weigh-ins
+// from the same bucket.
+
+export type TimeOfDay = "morning" | "evening" | "other"
+
+// Local hours, start inclusive and end exclusive; a bucket may wrap past midnight
+export type HourRange = { startHour: number; endHour: number }
+
+export type TimeOfDayBuckets = {
+  morning: HourRange
+  evening: HourRange
+}
+
+export const DEFAULT_TIME_OF_DAY_BUCKETS: TimeOfDayBuckets = {
+  morning: { startHour: 3, endHour: 12 },
+  evening: { startHour: 17, endHour: 3 },
+}
+
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  morning: "Morning",
+  evening: "Evening",
+  other: "Midday",
+}
+
+const inRange = (hour: number, { startHour, endHour }: HourRange) =>
+  startHour <= endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour
+
+export function classifyTimeOfDay(date: Date, buckets: TimeOfDayBuckets): TimeOfDay {
+  const hour = date.getHours() + date.getMinutes() / 60
+  if (inRange(hour, buckets.morning)) return "morning"
+  if (inRange(hour, buckets.evening)) return "evening"
+  return "other"
+}
+
+export type IntradayDelta = {
+  // Local calendar day, YYYY-MM-DD
+  day: string
+  timestamp: number
+  morningKg: number
+  eveningKg: number
+  // Evening minus morning
+  deltaKg: number
+}
+
+/**
+ * Evening minus morning weight for every day with weigh-ins in both buckets,
+ * using the mean of each bucket. An evening bucket that wraps past midnight
+ * counts its small hours towards the previous day.
+ */
+export function intradayDeltas(
+  points: { timestamp: number; weight: number }[],
+  buckets: TimeOfDayBuckets,
+): IntradayDelta[] {
+  const days = new Map<string, { morning: number[]; evening: number[] }>()
+  const wraps = buckets.evening.startHour > buckets.evening.endHour
+
+  for (const point of points) {
+    const date = new Date(point.timestamp)
+    const bucket = classifyTimeOfDay(date, buckets)
+    if (bucket === "other") continue
+    if (bucket === "evening" && wraps && date.getHours() < buckets.evening.endHour) {
+      date.setDate(date.getDate() - 1)
+    }
+    const key = toDay(date.getTime())
+    const day = days.get(key) ?? { morning: [], evening: [] }
+    day[bucket].push(point.weight)
+    days.set(key, day)
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+  const deltas: IntradayDelta[] = []
+  for (const [day, { morning, evening }] of days) {
+    if (morning.length === 0 || evening.length === 0) continue
+    const morningKg = mean(morning)
+    const eveningKg = mean(evening)
+    deltas.push({
+      day,
+      timestamp: new Date(`${day}T12:00:00`).getTime(),
+      morningKg,
+      eveningKg,
+      deltaKg: eveningKg - morningKg,
+    })
+  }
+  return deltas.sort((a, b) => a.timestamp - b.timestamp)
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { ewma, loess, movingAverage, rateOfChange, type TrendSample } from "@/lib/trend-smoothing"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Daily weigh-ins losing 0.1 kg a day, with a fixed alternating wobble
+const series = (days: number, start = 80): TrendSample[] =>
+  Array.from({ length: days }, (_, i) => ({
+    timestamp: i * DAY_MS,
+    weight: start - 0.1 * i + (i % 2 === 0 ? 0.2 : -0.2),
+    uncertainty: 0.05,
+  }))
+
+describe("movingAverage", () => {
+  it("averages the trailing window in days", () => {
+    const points = series(10)
+    const averaged = movingAverage(points, 7)
+    expect(averaged).toHaveLength(points.length)
+    expect(averaged[0]).toBeCloseTo(points[0].weight)
+    const window = points.slice(3, 10)
+    expect(averaged[9]).toBeCloseTo(window.reduce((sum, p) => sum + p.weight, 0) / window.length)
+  })
+})
+
+describe("ewma", () => {
+  it("stays between the first and last weight of a steady decline", () => {
+    const smoothed = ewma(series(30), 7)
+    expect(smoothed[29]).toBeLessThan(80)
+    expect(smoothed[29]).toBeGreaterThan(series(30)[29].weight - 0.3)
+  })
+})
+
+describe("loess", () => {
+  it("follows a straight line exactly", () => {
+    const points = Array.from({ length: 40 }, (_, i) => ({
+      timestamp: i * DAY_MS,
+      weight: 80 - 0.05 * i,
+      uncertainty: 0.1,
+    }))
+    loess(points).forEach((value, i) => expect(value).toBeCloseTo(points[i].weight, 6))
+  })
+
+  it("handles many weigh-ins at the same time", () => {
+    const points = Array.from({ length: 12 }, (_, i) => ({ timestamp: 0, weight: 70 + (i % 3), uncertainty: 0.1 }))
+    loess(points).forEach((value) => expect(value).toBeCloseTo(71, 6))
+  })
+})
+
+describe("rateOfChange", () => {
+  it("recovers the weekly slope", () => {
+    const rate = rateOfChange(series(28))
+    expect(rate?.kgPerWeek).toBeCloseTo(-0.7, 1)
+    expect(rate!.stdErrKgPerWeek).toBeGreaterThan(0)
+  })
+
+  it("needs two points at different times", () => {
+    expect(rateOfChange(series(1))).toBeNull()
+    expect(rateOfChange([series(1)[0], series(1)[0]])).toBeNull()
+  })
+})
@@ -0,0 +1,162 @@
+// Smoothing overlays and rate of change for the weight trend. Points are
+// irregularly spaced in time, so every window is measured in days rather than
+// in a number of points.
+
+export type TrendSample = {
+  timestamp: number
+  weight: number
+  uncertainty: number
+}
+
+export type SmoothingId = "ma7" | "ma30" | "ewma" | "loess"
+
+export type SmoothingOverlay = {
+  id: SmoothingId
+  label: string
+  color: string
+  // One value per input point, in the same order
+  compute: (points: TrendSample[]) => number[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Mean of the points in the trailing `days` window ending at each point
+export function movingAverage(points: TrendSample[], days: number): number[] {
+  const out: number[] = []
+  let start = 0
+  let sum = 0
+  for (let i = 0; i < points.length; i++) {
+    sum += points[i].weight
+    while (points[i].timestamp - points[start].timestamp >= days * DAY_MS) {
+      sum -= points[start].weight
+      start++
+    }
+    out.push(sum / (i - start + 1))
+  }
+  return out
+}
+
+/**
+ * Exponentially weighted trend whose memory halves every `halfLifeDays`,
+ * however many weigh-ins fall in that time.
+ */
+export function ewma(points: TrendSample[], halfLifeDays: number): number[] {
+  const out: number[] = []
+  let value = points[0]?.weight ?? 0
+  for (let i = 0; i < points.length; i++) {
+    if (i > 0) {
+      const dtDays = (points[i].timestamp - points[i - 1].timestamp) / DAY_MS
+      const alpha = 1 - Math.pow(2, -dtDays / halfLifeDays)
+      value += alpha * (points[i].weight - value)
+    }
+    out.push(value)
+  }
+  return out
+}
+
+/**
+ * Locally weighted linear regression: each point is re-estimated from the
+ * `span` fraction of points nearest in time, weighted by a tricube kernel.
+ * Points are in time order, so the nearest k are a window that only slides
+ * forwards, and the whole fit is O(n·k).
+ */
+export function loess(points: TrendSample[], span = 0.3): number[] {
+  const n = points.length
+  if (n < 3) return points.map((p) => p.weight)
+  const k = Math.min(n, Math.max(3, Math.ceil(span * n)))
+
+  let lo = 0
+  return points.map((point) => {
+    const t = point.timestamp
+    while (lo + k < n && points[lo + k].timestamp - t < t - points[lo].timestamp) lo++
+    let from = lo
+    let to = lo + k - 1
+    let radius = Math.max(t - points[from].timestamp, points[to].timestamp - t)
+    if (radius === 0) {
+      // More than k weigh-ins at this instant: use all of them
+      radius = 1
+      while (from > 0 && points[from - 1].timestamp === t) from--
+      while (to < n - 1 && points[to + 1].timestamp === t) to++
+    }
+
+    let sw = 0
+    let sx = 0
+    let sy = 0
+    let sxx = 0
+    let sxy = 0
+    for (let i = from; i <= to; i++) {
+      const u = Math.abs(points[i].timestamp - t) / radius
+      if (u >= 1) continue
+      const w = (1 - u ** 3) ** 3
+      // Days relative to the point keep the regression well conditioned
+      const x = (points[i].timestamp - t) / DAY_MS
+      sw += w
+      sx += w * x
+      sy += w * points[i].weight
+      sxx += w * x * x
+      sxy += w * x * points[i].weight
+    }
+
+    if (sw === 0) return point.weight
+    const denominator = sw * sxx - sx * sx
+    if (Math.abs(denominator) < 1e-12) return sy / sw
+    // Intercept of the local line, i.e. its value at x = 0
+    return (sxx * sy - sx * sxy) / denominator
+  })
+}
+
+export const SMOOTHING_OVERLAYS: SmoothingOverlay[] = [
+  { id: "ma7", label: "7-day average", color: "#f59e0b", compute: (points) => movingAverage(points, 7) },
+  { id: "ma30", label: "30-day average", color: "#8b5cf6", compute: (points) => movingAverage(points, 30) },
+  { id: "ewma", label: "Exponential trend", color: "#10b981", compute: (points) => ewma(points, 7) },
+  { id: "loess", label: "LOESS fit", color: "#ef4444", compute: (points) => loess(points) },
+]
+
+// Points with a smaller stored uncertainty would otherwise dominate the fit
+const MIN_UNCERTAINTY_KG = 0.05
+
+/**
+ * Weighted least-squares slope of weight against time in kg/week, with its
+ * standard error. Each point is weighted by its inverse variance.
+ */
+export function rateOfChange(points: TrendSample[]): { kgPerWeek: number; stdErrKgPerWeek: number } | null {
+  if (points.length < 2) return null
+  const origin = points[0].timestamp
+
+  let sw = 0
+  let sx = 0
+  let sy = 0
+  for (const p of points) {
+    const w = 1 / Math.max(p.uncertainty, MIN_UNCERTAINTY_KG) ** 2
+    const x = (p.timestamp - origin) / (7 * DAY_MS)
+    sw += w
+    sx += w * x
+    sy += w * p.weight
+  }
+  const meanX = sx / sw
+  const meanY = sy / sw
+
+  let sxx = 0
+  let sxy = 0
+  for (const p of points) {
+    const w = 1 / Math.max(p.uncertainty, MIN_UNCERTAINTY_KG) ** 2
+    const dx = (p.timestamp - origin) / (7 * DAY_MS) - meanX
+    sxx += w * dx * dx
+    sxy += w * dx * (p.weight - meanY)
+  }
+  if (sxx === 0) return null
+
+  const slope = sxy / sxx
+  // Scale the error by the scatter around the line, since day-to-day water
+  // weight is far larger than the per-weigh-in uncertainty
+  let chi2 = 0
+  for (const p of points) {
+    const w = 1 / Math.max(p.uncertainty, MIN_UNCERTAINTY_KG) ** 2
+    const x = (p.timestamp - origin) / (7 * DAY_MS)
+    chi2 += w * (p.weight - (meanY + slope * (x - meanX))) ** 2
+  }
+  const dof = points.length - 2
+  const scale = dof > 0 ? Math.max(1, chi2 / dof) : 1
+
+  return { kgPerWeek: slope, stdErrKgPerWeek: Math.sqrt(scale / sxx) }
+}
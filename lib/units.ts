@@ -0,0 +1,93 @@
+// Display units. Weights are stored and computed in kg everywhere; these
+// helpers convert only at the edge, for labels, axes, inputs and exports.
+// Stone charts are plotted in pounds and labelled as stones and pounds.
+
+export type WeightUnit = "kg" | "lb" | "st"
+
+export type UnitPreferences = {
+  unit: WeightUnit
+  // Decimals shown for weights; uncertainties and noise get more
+  precision: number
+}
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = { unit: "kg", precision: 2 }
+
+export const UNIT_OPTIONS: { unit: WeightUnit; label: string }[] = [
+  { unit: "kg", label: "Kilograms (kg)" },
+  { unit: "lb", label: "Pounds (lb)" },
+  { unit: "st", label: "Stones and pounds (st lb)" },
+]
+
+export const PRECISION_OPTIONS = [0, 1, 2, 3]
+
+export const LB_PER_KG = 2.20462262185
+const LB_PER_ST = 14
+
+type FormatOptions = {
+  // Decimals instead of the preferred precision
+  digits?: number
+  // Extra decimals on top of the preferred precision, for small quantities
+  extraDigits?: number
+  // In kg or lb even for stones, for differences and uncertainties
+  plain?: boolean
+  // Prefix positive values with "+"; implies plain
+  signed?: boolean
+  // Leave off the unit suffix
+  bare?: boolean
+}
+
+export type Units = UnitPreferences & {
+  // For axis titles and input suffixes: "kg", "lb" or "st lb"
+  label: string
+  // Unit of plotted values and inputs: kg, or lb for both lb and st
+  plotUnit: "kg" | "lb"
+  toPlot: (kg: number) => number
+  fromPlot: (value: number) => number
+  format: (kg: number, options?: FormatOptions) => string
+  // Tick label for a value already in plot units
+  formatTick: (value: number, digits?: number) => string
+  // Value in the export unit (decimal stones for st), at full precision
+  toExport: (kg: number) => number
+}
+
+function formatStones(lb: number, digits: number) {
+  const sign = lb < 0 ? "−" : ""
+  const abs = Math.abs(lb)
+  let stones = Math.floor(abs / LB_PER_ST)
+  let pounds = Number((abs - stones * LB_PER_ST).toFixed(digits))
+  // Rounding can carry 13.99 lb up to a full stone
+  if (pounds >= LB_PER_ST) {
+    stones += 1
+    pounds -= LB_PER_ST
+  }
+  return `${sign}${stones} st ${pounds.toFixed(digits)} lb`
+}
+
+export function createUnits(preferences: UnitPreferences): Units {
+  const { unit, precision } = preferences
+  const plotUnit = unit === "kg" ? "kg" : "lb"
+  const toPlot = (kg: number) => (plotUnit === "kg" ? kg : kg * LB_PER_KG)
+  const fromPlot = (value: number) => (plotUnit === "kg" ? value : value / LB_PER_KG)
+
+  const format = (kg: number, options: FormatOptions = {}) => {
+    const { digits, extraDigits = 0, plain = false, signed = false, bare = false } = options
+    const decimals = Math.max(0, digits ?? precision + extraDigits)
+    const value = toPlot(kg)
+    if (unit === "st" && !plain && !signed) return formatStones(value, decimals)
+    const text = `${signed && value >= 0 ? "+" : ""}${value.toFixed(decimals)}`
+    return bare ? text : `${text} ${plotUnit}`
+  }
+
+  return {
+    unit,
+    precision,
+    label: unit === "st" ? "st lb" : unit,
+    plotUnit,
+    toPlot,
+    fromPlot,
+    format,
+    formatTick: (value, digits = Math.min(precision, 1)) =>
+      unit === "st" ? formatStones(value, 0).replace(" lb", "") : value.toFixed(digits),
+    toExport: (kg) => (unit === "st" ? (kg * LB_PER_KG) / LB_PER_ST : toPlot(kg)),
+  }
+}
@@ -0,0 +1,177 @@
+import { csvCell } from "@/lib/export"
+
+// Pairs weight_event_results from two algorithm versions by event_id and
+// summarizes how the newer version changes outcomes across all events.
+
+export type ReportResult = {
+  event_id: string
+  algorithm_version: string
+  computed_at: string
+  raw_stable_weight_kg: number
+  raw_quality: number
+  raw_uncertainty_kg: number
+  consensus_mode: string | null
+}
+
+export type ResultPair = {
+  event_id: string
+  base: ReportResult
+  candidate: ReportResult
+  weight_delta_kg: number
+  quality_delta: number
+  uncertainty_delta_kg: number
+  consensus_mode_changed: boolean
+}
+
+export type DeltaBin = {
+  start: number
+  end: number
+  center: number
+  count: number
+}
+
+export type VersionReport = {
+  pairs: ResultPair[]
+  baseOnly: number
+  candidateOnly: number
+  meanWeightDelta: number
+  medianWeightDelta: number
+  meanAbsWeightDelta: number
+  meanQualityDelta: number
+  meanUncertaintyDelta: number
+  consensusModeChangeRate: number
+  deltaHistogram: DeltaBin[]
+  largestDisagreements: ResultPair[]
+}
+
+// Latest result per event for one version
+function latestByEvent(results: ReportResult[], version: string) {
+  const byEvent = new Map<string, ReportResult>()
+  for (const r of results) {
+    if (r.algorithm_version !== version) continue
+    const existing = byEvent.get(r.event_id)
+    if (!existing || new Date(r.computed_at).getTime() > new Date(existing.computed_at).getTime()) {
+      byEvent.set(r.event_id, r)
+    }
+  }
+  return byEvent
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0)
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0
+  const sorted = values.slice().sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+function histogram(values: number[], binCount: number): DeltaBin[] {
+  if (values.length === 0) return []
+  // A loop rather than Math.min(...values), which overflows the stack on large fleets
+  let min = values[0]
+  let max = values[0]
+  for (const v of values) {
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  if (min === max) return [{ start: min, end: max, center: min, count: values.length }]
+
+  const width = (max - min) / binCount
+  const bins: DeltaBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    center: min + (i + 0.5) * width,
+    count: 0,
+  }))
+  for (const v of values) {
+    bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++
+  }
+  return bins
+}
+
+export function buildVersionReport(
+  results: ReportResult[],
+  baseVersion: string,
+  candidateVersion: string,
+  { binCount = 30, topN = 20 } = {},
+): VersionReport {
+  const base = latestByEvent(results, baseVersion)
+  const candidate = latestByEvent(results, candidateVersion)
+
+  const pairs: ResultPair[] = []
+  for (const [eventId, b] of base) {
+    const c = candidate.get(eventId)
+    if (!c) continue
+    pairs.push({
+      event_id: eventId,
+      base: b,
+      candidate: c,
+      weight_delta_kg: c.raw_stable_weight_kg - b.raw_stable_weight_kg,
+      quality_delta: c.raw_quality - b.raw_quality,
+      uncertainty_delta_kg: c.raw_uncertainty_kg - b.raw_uncertainty_kg,
+      consensus_mode_changed: (b.consensus_mode ?? null) !== (c.consensus_mode ?? null),
+    })
+  }
+
+  const weightDeltas = pairs.map((p) => p.weight_delta_kg)
+
+  return {
+    pairs,
+    baseOnly: base.size - pairs.length,
+    candidateOnly: candidate.size - pairs.length,
+    meanWeightDelta: mean(weightDeltas),
+    medianWeightDelta: median(weightDeltas),
+    meanAbsWeightDelta: mean(weightDeltas.map(Math.abs)),
+    meanQualityDelta: mean(pairs.map((p) => p.quality_delta)),
+    meanUncertaintyDelta: mean(pairs.map((p) => p.uncertainty_delta_kg)),
+    consensusModeChangeRate: pairs.length ? pairs.filter((p) => p.consensus_mode_changed).length / pairs.length : 0,
+    deltaHistogram: histogram(weightDeltas, binCount),
+    largestDisagreements: pairs
+      .slice()
+      .sort((a, b) => Math.abs(b.weight_delta_kg) - Math.abs(a.weight_delta_kg))
+      .slice(0, topN),
+  }
+}
+
+export function pairsToCsv(pairs: ResultPair[]): string {
+  const header = [
+    "event_id",
+    "base_version",
+    "candidate_version",
+    "base_weight_kg",
+    "candidate_weight_kg",
+    "weight_delta_kg",
+    "base_quality",
+    "candidate_quality",
+    "quality_delta",
+    "base_uncertainty_kg",
+    "candidate_uncertainty_kg",
+    "uncertainty_delta_kg",
+    "base_consensus_mode",
+    "candidate_consensus_mode",
+    "consensus_mode_changed",
+  ]
+  const rows = pairs.map((p) =>
+    [
+      p.event_id,
+      p.base.algorithm_version,
+      p.candidate.algorithm_version,
+      p.base.raw_stable_weight_kg,
+      p.candidate.raw_stable_weight_kg,
+      p.weight_delta_kg,
+      p.base.raw_quality,
+      p.candidate.raw_quality,
+      p.quality_delta,
+      p.base.raw_uncertainty_kg,
+      p.candidate.raw_uncertainty_kg,
+      p.uncertainty_delta_kg,
+      p.base.consensus_mode,
+      p.candidate.consensus_mode,
+      p.consensus_mode_changed,
+    ]
+      .map(csvCell)
+      .join(","),
+  )
+  return [header.join(","), ...rows].join("\n")
+}
@@ -0,0 +1,98 @@
+import { SMOOTHING_OVERLAYS, type SmoothingId } from "@/lib/trend-smoothing"
+
+// Dashboard view state that lives in the URL query, so a view can be
+// bookmarked and shared: ?range=30d or ?from=2026-01-01&to=2026-02-15,
+// &profile=<id>, &scale=<scale_id>, &smooth=ma7,ewma and &tod=morning.
+
+export type TrendRange =
+  | { kind: "all" }
+  | { kind: "preset"; days: number }
+  // Local calendar days, YYYY-MM-DD, both inclusive
+  | { kind: "custom"; from: string; to: string }
+
+export type ViewState = {
+  range: TrendRange
+  profile: string
+  scale: string
+  smoothing: SmoothingId[]
+  // Restricts the trend to weigh-ins in the morning bucket
+  morningOnly: boolean
+}
+
+export const RANGE_PRESETS = [7, 30, 90]
+
+export const DEFAULT_VIEW: ViewState = {
+  range: { kind: "all" },
+  profile: "all",
+  scale: "all",
+  smoothing: [],
+  morningOnly: false,
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const isDay = (value: string | null): value is string =>
+  value !== null && DAY_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime())
+
+// YYYY-MM-DD of a timestamp in local time
+export function toDay(timestamp: number): string {
+  const date = new Date(timestamp)
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function parseViewState(params: URLSearchParams): ViewState {
+  let range: TrendRange = DEFAULT_VIEW.range
+  const preset = params.get("range")?.match(/^(\d+)d$/)
+  const from = params.get("from")
+  const to = params.get("to")
+  if (preset && Number(preset[1]) > 0) {
+    range = { kind: "preset", days: Number(preset[1]) }
+  } else if (isDay(from) && isDay(to)) {
+    range = from <= to ? { kind: "custom", from, to } : { kind: "custom", from: to, to: from }
+  }
+
+  const known = new Set<string>(SMOOTHING_OVERLAYS.map((overlay) => overlay.id))
+  const smoothing = (params.get("smooth") ?? "")
+    .split(",")
+    .filter((id): id is SmoothingId => known.has(id))
+
+  return {
+    range,
+    profile: params.get("profile") || DEFAULT_VIEW.profile,
+    scale: params.get("scale") || DEFAULT_VIEW.scale,
+    smoothing,
+    morningOnly: params.get("tod") === "morning",
+  }
+}
+
+/**
+ * Writes `view` over `params`, leaving unrelated parameters alone. Defaults
+ * are omitted to keep shared URLs short.
+ */
+export function serializeViewState(view: ViewState, params = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params)
+  for (const key of ["range", "from", "to", "profile", "scale", "smooth", "tod"]) next.delete(key)
+
+  if (view.range.kind === "preset") next.set("range", `${view.range.days}d`)
+  if (view.range.kind === "custom") {
+    next.set("from", view.range.from)
+    next.set("to", view.range.to)
+  }
+  if (view.profile !== DEFAULT_VIEW.profile) next.set("profile", view.profile)
+  if (view.scale !== DEFAULT_VIEW.scale) next.set("scale", view.scale)
+  if (view.smoothing.length > 0) next.set("smooth", view.smoothing.join(","))
+  if (view.morningOnly) next.set("tod", "morning")
+  return next
+}
+
+// Inclusive timestamp bounds of a range; null when it covers all time
+export function rangeBounds(range: TrendRange, now = Date.now()): { start: number; end: number } | null {
+  if (range.kind === "all") return null
+  if (range.kind === "preset") return { start: now - range.days * DAY_MS, end: now }
+  const start = new Date(`${range.from}T00:00:00`).getTime()
+  const end = new Date(`${range.to}T00:00:00`)
+  end.setDate(end.getDate() + 1)
+  return { start, end: end.getTime() - 1 }
+}
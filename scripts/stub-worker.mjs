@@ -0,0 +1,67 @@
+// Local stand-in for the process_weight_event_worker edge function.
+//
+//   STUB_SECRET=local-secret pnpm stub-worker
+//   RECALC_FUNCTION_URL=http://localhost:54329/process_weight_event_worker \
+//   RECALC_FUNCTION_SECRET=local-secret RECALC_API_TOKEN=dev-token pnpm dev
+//   curl -X POST -H "Authorization: Bearer dev-token" http://localhost:3000/api/recalculate
+//
+// The stub drains a fake queue of STUB_QUEUE events (default 120), taking
+// STUB_DELAY_MS (default 500) per batch. A body with event_ids processes just
+// those events. Set STUB_FAIL=1 to make every call return a 500.
+
+import { createServer } from "node:http"
+
+const port = Number(process.env.STUB_PORT ?? 54329)
+const secret = process.env.STUB_SECRET ?? "local-secret"
+const fail = process.env.STUB_FAIL === "1"
+const delayMs = Number(process.env.STUB_DELAY_MS ?? 500)
+let queue = Number(process.env.STUB_QUEUE ?? 120)
+let nextEvent = 1
+
+const readJson = async (req) => {
+  let text = ""
+  for await (const chunk of req) text += chunk
+  try {
+    return text ? JSON.parse(text) : {}
+  } catch {
+    return {}
+  }
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${port}`)
+  console.log(`[stub-worker] ${req.method} ${url.pathname}${url.search}`)
+
+  if (req.method !== "POST" || url.pathname !== "/process_weight_event_worker") {
+    return send(res, 404, { error: "not found" })
+  }
+  if (req.headers["x-function-secret"] !== secret) {
+    return send(res, 401, { error: "invalid function secret" })
+  }
+  if (fail) {
+    return send(res, 500, { error: "stub failure" })
+  }
+
+  const body = await readJson(req)
+  await new Promise((resolve) => setTimeout(resolve, delayMs))
+
+  if (Array.isArray(body.event_ids)) {
+    console.log(`[stub-worker] targeted ${body.event_ids.length} events (version ${body.algorithm_version ?? "default"})`)
+    return send(res, 200, { processed: body.event_ids.length, failed: 0, remaining: queue, event_ids: body.event_ids })
+  }
+
+  const batch = Number(url.searchParams.get("batch") ?? 50)
+  const taken = Math.min(batch, queue)
+  queue -= taken
+  const eventIds = Array.from({ length: taken }, () => `stub-event-${nextEvent++}`)
+  send(res, 200, { processed: taken, failed: 0, remaining: queue, event_ids: eventIds })
+})
+
+server.listen(port, () => {
+  console.log(`[stub-worker] listening on http://localhost:${port}/process_weight_event_worker`)
+})
@@ -0,0 +1,24 @@
+-- Progress of POST /api/recalculate jobs, written by the server instance that
+-- runs the job and read by GET /api/recalculate/:jobId on any instance.
+create table if not exists recalculate_jobs (
+  id uuid primary key,
+  status text not null check (status in ('running', 'completed', 'failed')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  batch_size integer not null,
+  target_event_ids text[],
+  algorithm_version text,
+  batches integer not null default 0,
+  processed integer not null default 0,
+  failed integer not null default 0,
+  remaining integer,
+  event_ids text[] not null default '{}',
+  error text
+);
+
+create index if not exists recalculate_jobs_updated_at_idx on recalculate_jobs (updated_at);
+
+-- No policies: with row level security on, the anon and authenticated roles
+-- can neither read nor write jobs through PostgREST. The API routes check the
+-- caller and then use the service-role key, which bypasses RLS.
+alter table recalculate_jobs enable row level security;
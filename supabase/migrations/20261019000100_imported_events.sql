@@ -0,0 +1,17 @@
+-- Summary-only weigh-ins imported from other apps (POST /api/import): a
+-- source format and a weight, and no samples. Sample events keep source null.
+alter table weight_events
+  add column if not exists source text,
+  add column if not exists weight_kg double precision;
+
+-- Imports before this index could store the same weigh-in twice; keep the first
+delete from weight_events a
+  using weight_events b
+  where a.source is not null
+    and a.source = b.source
+    and a.started_at = b.started_at
+    and a.id > b.id;
+
+-- Lets an import skip rows already stored, within and across batches. Null
+-- sources never conflict, so sample events are unaffected.
+create unique index if not exists weight_events_source_started_at_key on weight_events (source, started_at);